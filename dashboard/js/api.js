@@ -62,3 +62,32 @@ export async function fetchGateway(id, hours = 24) {
 export async function fetchModels(days = 7) {
   return apiFetch(`/api/models?days=${days}`);
 }
+
+/**
+ * GET /api/tool-failures?hours=N
+ * Returns: { totalFailures, corrective, loopDetected, cycleDetected, hardCap, passed, repaired,
+ *            byTool: [{tool, failures}], byModel: [{model, failures}],
+ *            topSignatures: [{tool, category, signature, failures, models, lastSeen}],
+ *            malformedLeaderboard: [{model, malformed, calls, rate}] }
+ */
+export async function fetchToolFailures(hours = 24) {
+  return apiFetch(`/api/tool-failures?hours=${hours}`);
+}
+
+/**
+ * GET /api/tool-failures/timeseries?hours=N&groupBy=tool|model
+ * Returns: { timestamps: [ISO], series: [{ key, counts: [number] }] }
+ */
+export async function fetchToolFailureTimeseries(hours = 24, groupBy = "tool") {
+  return apiFetch(`/api/tool-failures/timeseries?hours=${hours}&groupBy=${groupBy}`);
+}
+
+/**
+ * GET /api/tool-calls?hours=N
+ * Returns: { totalCalls, totalErrors, errorRate,
+ *            byModelTool: [{ model, tool, calls, errors, errorRate, avgDurationMs,
+ *                            p50DurationMs, p95DurationMs, corrected, correctionSuccessRate }] }
+ */
+export async function fetchToolCalls(hours = 24) {
+  return apiFetch(`/api/tool-calls?hours=${hours}`);
+}
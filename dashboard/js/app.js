@@ -11,6 +11,9 @@ import {
   fetchTimeseries,
   fetchGateways,
   fetchModels,
+  fetchToolFailures,
+  fetchToolFailureTimeseries,
+  fetchToolCalls,
 } from "./api.js";
 
 import {
@@ -20,6 +23,7 @@ import {
   renderHourlyBurnChart,
   renderLiveChart,
   renderModelDistChart,
+  renderFailureSeriesChart,
 } from "./charts.js";
 
 const REFRESH_MS = 30_000;
@@ -41,6 +45,16 @@ function fmtCost(n) {
   return "$" + Number(n).toFixed(5);
 }
 
+function fmtPct(n) {
+  if (n == null || isNaN(n)) return "—";
+  return (n * 100).toFixed(1) + "%";
+}
+
+function fmtMs(n) {
+  if (n == null || isNaN(n)) return "—";
+  return n >= 1000 ? (n / 1000).toFixed(1) + "s" : Math.round(n) + "ms";
+}
+
 function setEl(id, text) {
   const el = document.getElementById(id);
   if (el) el.textContent = text;
@@ -255,6 +269,99 @@ async function refreshLive() {
   }
 }
 
+// ── Tool Health ────────────────────────────────────────────────────────────
+
+async function refreshTools() {
+  const { hours } = toParams(getRange());
+
+  const [summary, byTool, byModel, calls] = await Promise.all([
+    fetchToolFailures(hours),
+    fetchToolFailureTimeseries(hours, "tool"),
+    fetchToolFailureTimeseries(hours, "model"),
+    fetchToolCalls(hours),
+  ]);
+
+  setEl("th-failures",  fmt(summary?.totalFailures));
+  setEl("th-corrective", fmt(summary?.corrective));
+  setEl("th-loops",     fmt(summary && summary.loopDetected + (summary.cycleDetected ?? 0)));
+  setEl("th-hardcaps",  fmt(summary?.hardCap));
+  setEl("th-top-tool",  summary?.byTool?.[0]?.tool ?? "—");
+  setEl("th-error-rate", calls?.totalCalls > 0 ? fmtPct(calls.errorRate) : "—");
+
+  const hasTool = byTool?.timestamps?.length > 0;
+  const hasModel = byModel?.timestamps?.length > 0;
+  showEmpty("empty-failures-tool", !hasTool);
+  showEmpty("empty-failures-model", !hasModel);
+  if (hasTool) renderFailureSeriesChart("failuresByTool", "chart-failures-tool", byTool);
+  if (hasModel) renderFailureSeriesChart("failuresByModel", "chart-failures-model", byModel);
+
+  const signatures = summary?.topSignatures ?? [];
+  if (signatures.length === 0) {
+    clearTbody("sig-tbody", 4, "No tool failures in this range");
+  } else {
+    const tbody = clearTbody("sig-tbody", 0);
+    for (const sig of signatures) {
+      const tr = tbody.insertRow();
+      tr.insertCell().appendChild(makeSpan("gw-badge", sig.tool));
+      const tdCategory = tr.insertCell();
+      tdCategory.className = "cell-text";
+      tdCategory.appendChild(makeSpan("model-name", sig.category));
+      const tdSig = tr.insertCell();
+      tdSig.className = "cell-text";
+      tdSig.appendChild(makeSpan("signature", sig.signature));
+      const tdCount = tr.insertCell();
+      tdCount.className = "num";
+      tdCount.textContent = fmt(sig.failures);
+    }
+  }
+
+  const leaderboard = summary?.malformedLeaderboard ?? [];
+  if (leaderboard.length === 0) {
+    clearTbody("malformed-tbody", 4, "No malformed calls in this range");
+  } else {
+    const tbody = clearTbody("malformed-tbody", 0);
+    for (const row of leaderboard) {
+      const tr = tbody.insertRow();
+      tr.insertCell().appendChild(makeSpan("model-name", row.model));
+      const tdMalformed = tr.insertCell();
+      tdMalformed.className = "num";
+      tdMalformed.textContent = fmt(row.malformed);
+      const tdCalls = tr.insertCell();
+      tdCalls.className = "num";
+      tdCalls.textContent = fmt(row.calls);
+      const tdRate = tr.insertCell();
+      tdRate.className = "num";
+      tdRate.textContent = fmtPct(row.rate);
+    }
+  }
+
+  const reliability = calls?.byModelTool ?? [];
+  if (reliability.length === 0) {
+    clearTbody("calls-tbody", 7, "No tool calls recorded in this range");
+  } else {
+    const tbody = clearTbody("calls-tbody", 0);
+    for (const row of reliability) {
+      const tr = tbody.insertRow();
+      tr.insertCell().appendChild(makeSpan("model-name", row.model));
+      const tdTool = tr.insertCell();
+      tdTool.className = "cell-text";
+      tdTool.appendChild(makeSpan("gw-badge", row.tool));
+      const cells = [
+        fmt(row.calls),
+        fmtPct(row.errorRate),
+        fmtMs(row.p50DurationMs),
+        fmtMs(row.p95DurationMs),
+        fmtPct(row.correctionSuccessRate),
+      ];
+      for (const text of cells) {
+        const td = tr.insertCell();
+        td.className = "num";
+        td.textContent = text;
+      }
+    }
+  }
+}
+
 // ── Refresh orchestrator ───────────────────────────────────────────────────
 
 async function refresh() {
@@ -263,6 +370,7 @@ async function refresh() {
     else if (currentView === "gateways")  await refreshGateways();
     else if (currentView === "models")    await refreshModels();
     else if (currentView === "live")      await refreshLive();
+    else if (currentView === "tools")     await refreshTools();
   } catch (err) {
     console.error("[metrics] Refresh failed:", err);
   }
@@ -6,6 +6,7 @@
  *   timeseries  — [{ timestamp: ISO string, tokens: number, cost: number }]
  *   models      — [{ id, provider, totalTokens, totalCost, avgCostPer1K }]
  *   gateways    — [{ id, totalTokens24h, totalCost24h, topModel }]
+ *   failureSeries — { timestamps: [ISO string], series: [{ key, counts: [number] }] }
  */
 
 // Active chart instances — destroyed before re-rendering
@@ -16,6 +17,8 @@ const charts = {
   hourly: null,
   live: null,
   modelsDist: null,
+  failuresByTool: null,
+  failuresByModel: null,
 };
 
 // Shared palette
@@ -248,3 +251,31 @@ export function renderModelDistChart(models) {
     },
   });
 }
+
+// ── Tool failures stacked bar chart ───────────────────────────────────────
+// failureSeries: { timestamps, series: [{ key, counts }] }
+export function renderFailureSeriesChart(key, canvasId, failureSeries) {
+  destroy(key);
+  const ctx = document.getElementById(canvasId)?.getContext("2d");
+  if (!ctx || !failureSeries?.timestamps?.length) return;
+
+  charts[key] = new Chart(ctx, {
+    type: "bar",
+    data: {
+      labels: failureSeries.timestamps.map(fmtLabel),
+      datasets: failureSeries.series.map((s, i) => ({
+        label: s.key,
+        data: s.counts,
+        backgroundColor: PALETTE[i % PALETTE.length],
+        borderWidth: 0,
+        borderRadius: 2,
+      })),
+    },
+    options: baseOpts({
+      scales: {
+        x: { stacked: true, ticks: { color: C.label, maxRotation: 0, font: { size: 10 } }, grid: { color: C.grid } },
+        y: { stacked: true, ticks: { color: C.label, font: { size: 10 }, precision: 0 }, grid: { color: C.grid }, beginAtZero: true },
+      },
+    }),
+  });
+}
@@ -1,23 +1,316 @@
-import { ToolGuardTracker } from "./src/tracker.js";
-import { classifyError, buildCorrectiveMessage } from "./src/classifier.js";
-import { ToolGuardLogger } from "./src/logger.js";
-import { MetricsDatabase } from "./src/database.js";
+import {
+  SessionRegistry,
+  resolveSessionKey,
+  resolveModelFromContext,
+  attributeModel,
+  rememberArgs,
+  recallArgs,
+  type SessionState,
+  type GuardMode,
+} from "./src/sessions.js";
+import {
+  classifyError,
+  categorizeError,
+  buildCorrectiveMessage,
+  CATEGORY_POLICIES,
+  type ErrorCategory,
+  type Verbosity,
+} from "./src/classifier.js";
+import { parseToolArgs, formatParseError } from "./src/json-repair.js";
+import { buildEditHint } from "./src/edit-hint.js";
+import { detectToolError, rewriteToolError, messageText, appendNoteToMessage } from "./src/tool-result.js";
+import { validateToolArgs, isGuardMessage } from "./src/validator.js";
+import { SchemaRegistry } from "./src/schemas.js";
+import { compileRules } from "./src/rules.js";
+import { selectLadder } from "./src/escalation.js";
+import { compileProfiles, selectProfile } from "./src/profiles.js";
+import type { TrackResult } from "./src/tracker.js";
+import { ToolGuardLogger, type LogEntry } from "./src/logger.js";
+import { compileRedaction } from "./src/redact.js";
+import { MetricsDatabase, type GuardAction } from "./src/database.js";
+import { formatCycleMessage, type CycleMatch } from "./src/cycles.js";
+import { hashText } from "./src/fingerprint.js";
 import { MetricsCollector } from "./src/metrics-collector.js";
 import { DashboardServer } from "./src/dashboard-server.js";
+import { replayLog, formatReplayReport, parseDuration } from "./src/replay.js";
+import { runToolGuardCommand } from "./src/commands.js";
+import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { homedir } from "node:os";
 
+// Past successful calls longer than this are not repeated as examples
+const MAX_EXAMPLE_CHARS = 1000;
+
 export default function register(api: any) {
   const config = api.pluginConfig ?? {};
 
+  // Set once the metrics service starts; tool-guard failures are persisted through it
+  let collector: MetricsCollector | null = null;
+
+  // Shared by the attribution log and the metrics database
+  const redaction = compileRedaction(config.redaction);
+  for (const problem of redaction.errors) {
+    console.warn(`[tool-guard] Ignoring invalid redaction setting — ${problem}`);
+  }
+
   // ── Tool-Guard ────────────────────────────────────────────────────────────
   if (config.enabled !== false) {
-    const tracker = new ToolGuardTracker(config);
-    const logger = new ToolGuardLogger(config.logPath);
+    const sessions = new SessionRegistry(config);
+    const logger = new ToolGuardLogger(config.logPath, { redaction, rotation: config.logRotation, writer: config.logWriter });
+    const schemas = new SchemaRegistry();
+    // Discovery is best-effort: none of these sources is in the documented
+    // plugin API, so say plainly whether any host schemas were found
+    const hostSchemas = schemas.load(listHostTools(api));
+    console.log(
+      hostSchemas > 0
+        ? `[tool-guard] Loaded ${hostSchemas} tool schemas from the host`
+        : "[tool-guard] No host tool definitions at startup — built-in schemas only until before_agent_start provides some",
+    );
+
+    const toAction = (trackAction: string): GuardAction =>
+      trackAction === "continue" ? "corrective" : (trackAction as GuardAction);
+    // Blocking stages are terminal and always win; a completed cycle outranks per-key loops
+    const resolveAction = (trackAction: string, cycle: CycleMatch | null): GuardAction =>
+      cycle && trackAction !== "hard-cap" && trackAction !== "abort-turn" ? "cycle-detected" : toAction(trackAction);
+
+    const rules = compileRules(config.rules);
+    for (const problem of rules.errors) {
+      console.warn(`[tool-guard] Ignoring invalid rule — ${problem}`);
+    }
+
+    // Shadow mode runs the full policy but only logs what it would have done;
+    // tool calls and results reach the model untouched. Operators can switch
+    // a single session with /toolguard mode.
+    const defaultMode: GuardMode = config.mode === "shadow" || config.mode === "off" ? config.mode : "enforce";
+    const modeOf = (session: SessionState): GuardMode => session.mode ?? defaultMode;
+
+    const profiles = compileProfiles(config);
+    for (const problem of profiles.errors) {
+      console.warn(`[tool-guard] Ignoring invalid profile setting — ${problem}`);
+    }
+
+    // Message for a tracked failure: terminal stages carry their own text,
+    // corrective stages fall back to the schema-aware corrective message
+    const escalationMessage = (
+      trackResult: TrackResult,
+      toolName: string,
+      args: Record<string, unknown>,
+      errorText: string,
+      example: Record<string, unknown> | undefined,
+      verbosity: Verbosity,
+    ): string => {
+      if (trackResult.action !== "continue" && trackResult.action !== "corrective-example") {
+        return trackResult.message!;
+      }
+      const text = trackResult.message ?? buildCorrectiveMessage(toolName, args, errorText, schemas, rules, verbosity);
+      // The example is the model's own earlier call, shown verbatim like the
+      // args echoed in corrective messages, so it can be copied as-is; calls
+      // too large to repeat usefully are left out
+      const shown = example && JSON.stringify(example);
+      if (trackResult.action === "corrective-example" && shown && shown.length <= MAX_EXAMPLE_CHARS) {
+        return `${text} A ${toolName} call that succeeded earlier in this session: ${toolName}(${shown}).`;
+      }
+      return text;
+    };
+
+    // Every attribution log entry is stamped with the session, turn, hook and
+    // the model the call is attributed to
+    const logEvent = (
+      session: SessionState,
+      toolCallId: string | undefined,
+      hook: NonNullable<LogEntry["hook"]>,
+      fields: Omit<LogEntry, "timestamp" | "sessionKey" | "turn" | "toolCallId" | "hook" | "provider" | "modelId">,
+    ): void => {
+      const { provider, modelId } = attributeModel(session, toolCallId);
+      logger.log({
+        sessionKey: session.key,
+        turn: session.turn,
+        toolCallId,
+        hook,
+        provider,
+        modelId,
+        ...fields,
+        shadow: fields.shadow || undefined,
+      });
+    };
 
     if (api.on) {
-      api.on("before_agent_start", () => {
-        tracker.resetTurn();
+      api.on("before_agent_start", (event: any, ctx: any) => {
+        const key = resolveSessionKey(ctx, event);
+        sessions.startTurn(key);
+        const { provider, model } = resolveModelFromContext(ctx, event);
+        sessions.setModel(key, provider, model);
+        // Tools can be added after startup (late plugins, per-agent tool sets).
+        // Undocumented, like listHostTools: used when the host sends it
+        if (Array.isArray(event?.tools)) schemas.load(event.tools);
+      });
+
+      api.on("session_end", (event: any, ctx: any) => {
+        sessions.delete(resolveSessionKey(ctx, event));
+      });
+
+      // Before execution: refuse calls once the session's turn hit the hard cap,
+      // repair malformed JSON and known aliases, and short-circuit calls that
+      // cannot succeed (unparseable args, missing required params) so the tool
+      // never runs
+      api.on("before_tool_call", (event: any, ctx: any) => {
+        const toolName = event.toolName ?? ctx.toolName ?? "unknown";
+        const toolCallId = ctx.toolCallId ?? event.toolCallId;
+        const session = sessions.get(resolveSessionKey(ctx, event));
+        const mode = modeOf(session);
+        if (mode === "off") return;
+        const shadow = mode === "shadow";
+
+        const capMessage = session.tracker.checkBlocked(toolName);
+        if (capMessage && shadow) {
+          logEvent(session, toolCallId, "before_tool_call", {
+            toolName,
+            args: event.params ?? {},
+            errorType: "blocked",
+            errorMessage: "Blocked after hard cap",
+            action: "blocked",
+            message: capMessage,
+            shadow: true,
+          });
+          markShadowRefused(session, toolName, toolCallId);
+          return;
+        }
+        if (capMessage) {
+          const { provider, modelId } = attributeModel(session, toolCallId);
+          collector?.recordToolFailure({
+            sessionKey: session.key,
+            provider,
+            model: modelId,
+            tool: toolName,
+            category: "unknown",
+            action: "blocked",
+            errorMessage: "Blocked after hard cap",
+            args: event.params ?? {},
+          });
+          // Like refused calls, blocked ones never reach after_tool_call
+          collector?.recordToolCall({
+            sessionKey: session.key,
+            provider,
+            model: modelId,
+            tool: toolName,
+            success: false,
+            afterCorrection: session.corrected.has(toolName),
+          });
+          return { block: true, blockReason: capMessage };
+        }
+
+        // Captured before the validation gate: loop fingerprints, cycle
+        // signatures, usage examples and edit hints all read these back
+        const parsed = parseToolArgs(event.params);
+        if (parsed.ok) rememberArgs(session, toolName, toolCallId, parsed.value);
+
+        if (config.validateBeforeCall === false) return;
+
+        // Track, log and persist a call refused before execution, and build
+        // the message the model sees instead of a result
+        const refuse = (
+          category: ErrorCategory,
+          errorText: string,
+          args: Record<string, unknown>,
+          rawArgs: unknown,
+        ) => {
+          const { provider, modelId } = attributeModel(session, toolCallId);
+          const profile = selectProfile(profiles, provider, modelId);
+
+          const trackResult = session.tracker.recordFailure(
+            toolName,
+            args,
+            errorText,
+            modelId,
+            CATEGORY_POLICIES[category].weight,
+            selectLadder(profile.escalation, toolName, modelId),
+          );
+          const cycle = session.cycles.record(toolName, args, true);
+          const action = resolveAction(trackResult.action, cycle);
+          const blockReason = action === "cycle-detected"
+            ? formatCycleMessage(cycle!)
+            : escalationMessage(trackResult, toolName, args, errorText, session.examples.get(toolName), profile.verbosity);
+          logEvent(session, toolCallId, "before_tool_call", {
+            toolName,
+            args: rawArgs,
+            errorType: "non-retryable",
+            category,
+            errorMessage: errorText,
+            stage: trackResult.stage,
+            action,
+            profile: profile.name,
+            message: blockReason,
+            shadow,
+          });
+
+          if (shadow) {
+            // The call goes ahead; its real result is persisted once it comes back
+            markShadowRefused(session, toolName, toolCallId);
+            return undefined;
+          }
+
+          collector?.recordToolFailure({
+            sessionKey: session.key,
+            provider,
+            model: modelId,
+            tool: toolName,
+            category,
+            action,
+            errorMessage: errorText,
+            args: rawArgs,
+          });
+
+          // Blocked calls never reach after_tool_call, so count them here
+          collector?.recordToolCall({
+            sessionKey: session.key,
+            provider,
+            model: modelId,
+            tool: toolName,
+            success: false,
+            afterCorrection: session.corrected.has(toolName),
+          });
+          session.corrected.add(toolName);
+          return { block: true, blockReason };
+        };
+
+        if (!parsed.ok) {
+          return refuse("malformed-json", formatParseError(parsed), {}, event.params);
+        }
+        if (parsed.repairs.length > 0) {
+          const { provider, modelId } = attributeModel(session, toolCallId);
+          const errorText = `Repaired malformed JSON arguments: ${parsed.repairs.join(", ")}`;
+          logEvent(session, toolCallId, "before_tool_call", {
+            toolName,
+            args: event.params,
+            errorType: "repaired",
+            category: "malformed-json",
+            errorMessage: errorText,
+            action: "repaired",
+            shadow,
+          });
+          if (!shadow) collector?.recordToolFailure({
+            sessionKey: session.key,
+            provider,
+            model: modelId,
+            tool: toolName,
+            category: "malformed-json",
+            action: "repaired",
+            errorMessage: errorText,
+            args: parsed.value,
+          });
+        }
+
+        const validation = validateToolArgs(toolName, parsed.value, schemas);
+        // Aliases are repaired now, so remember the canonical form instead
+        rememberArgs(session, toolName, toolCallId, validation.params);
+        if (validation.missing.length === 0) {
+          // Raw JSON strings are handed back parsed, even when they needed no repair
+          const changed = validation.repaired.length > 0 || typeof event.params === "string";
+          return changed && !shadow ? { params: validation.params } : undefined;
+        }
+
+        const errorText = `Missing required parameter: ${validation.missing.join(", ")}`;
+        return refuse("missing-param", errorText, validation.params, event.params ?? {});
       });
 
       // Use tool_result_persist to modify error messages before they reach the model
@@ -26,62 +319,207 @@ export default function register(api: any) {
         const message = event.message;
         if (!message) return;
 
-        // Extract error text from the tool result message
-        const errorText = extractErrorFromMessage(message);
-        if (!errorText) return; // No error — nothing to do
+        // The host's error flag or envelope decides; text patterns are the fallback
+        const failure = detectToolError(message);
+        if (failure && isGuardMessage(failure.text)) return; // Already handled in before_tool_call
 
         const toolName = ctx.toolName ?? event.toolName ?? "unknown";
         const toolCallId = ctx.toolCallId ?? event.toolCallId ?? "";
+        const session = sessions.get(resolveSessionKey(ctx, event));
+        const mode = modeOf(session);
+        if (mode === "off") return;
+        const shadow = mode === "shadow";
 
-        const classification = classifyError(errorText);
+        // In shadow mode, a call the guard would have refused was already
+        // tracked in before_tool_call. Its real outcome is still logged and
+        // persisted for comparison, but not counted toward loops a second time
+        const wouldHaveBlocked = shadow && takeShadowRefused(session, toolName, toolCallId);
+
+        if (!failure && wouldHaveBlocked) {
+          logEvent(session, toolCallId, "tool_result_persist", {
+            toolName,
+            args: recallArgs(session, toolName, toolCallId),
+            errorType: "success",
+            errorMessage: "",
+            action: "passed",
+            wouldHave: "blocked",
+            shadow,
+          });
+          return;
+        }
+        if (!failure) {
+          // Successful calls still take part in alternating patterns, and
+          // identical repeats with an unchanged result get an advisory note
+          const args = recallArgs(session, toolName, toolCallId);
+          session.cycles.record(toolName, args, false);
+          if (Object.keys(args).length > 0) session.examples.set(toolName, args);
+          const note = session.tracker.recordSuccess(toolName, args, hashText(messageText(message)));
+          if (note && shadow) {
+            logEvent(session, toolCallId, "tool_result_persist", {
+              toolName,
+              args,
+              errorType: "advisory",
+              errorMessage: "Repeated identical successful call",
+              action: "note",
+              message: note,
+              shadow: true,
+            });
+            return;
+          }
+          return note ? { message: appendNoteToMessage(message, note) } : undefined;
+        }
+
+        const errorText = failure.text;
+        const category = categorizeError(errorText, rules, toolName);
+        const policy = CATEGORY_POLICIES[category];
+        const classification = classifyError(errorText, rules, toolName);
+        const { provider, modelId } = attributeModel(session, toolCallId);
+        const args = recallArgs(session, toolName, toolCallId);
+        // Limits and verbosity come from the profile for the model that made the call
+        const profile = selectProfile(profiles, provider, modelId);
 
         // Log asynchronously (fire and forget — logger handles its own errors)
-        void logger.log({
-          modelId: toolCallId.startsWith("toolu_")
-            ? "anthropic"
-            : toolCallId.startsWith("call_")
-              ? "fireworks/openai-compat"
-              : "unknown",
+        const logFailure = (stage?: number, action?: GuardAction, injected?: string) => logEvent(session, toolCallId, "tool_result_persist", {
           toolName,
-          args: {},
+          args,
           errorType: classification,
+          category,
           errorMessage: errorText,
+          stage,
+          action,
+          profile: profile.name,
+          message: injected,
+          wouldHave: wouldHaveBlocked ? "blocked" : undefined,
+          shadow,
         });
 
-        if (classification === "retryable") return;
+        const persistFailure = (action: GuardAction) => collector?.recordToolFailure({
+          sessionKey: session.key,
+          provider,
+          model: modelId,
+          tool: toolName,
+          category,
+          action,
+          errorMessage: errorText,
+          args,
+        });
 
-        // Track the failure
-        const trackResult = tracker.recordFailure(toolName, {}, errorText, "");
+        if (wouldHaveBlocked) {
+          logFailure(undefined, "passed");
+          persistFailure("passed");
+          return;
+        }
 
-        // Build the replacement message
-        let newErrorText: string;
-        if (trackResult.action === "hard-cap") {
-          newErrorText = trackResult.message!;
-        } else if (trackResult.action === "loop-detected") {
-          newErrorText = trackResult.message!;
-        } else {
-          // First occurrence — provide corrective guidance
-          newErrorText = buildCorrectiveMessage(toolName, {}, errorText);
+        if (classification === "retryable") {
+          // Transient errors keep their place in the history but never complete a cycle
+          session.cycles.record(toolName, args, false);
+          logFailure(undefined, "passed");
+          persistFailure("passed");
+          return;
         }
 
+        // Track the failure against this session's turn only
+        const trackResult = session.tracker.recordFailure(
+          toolName,
+          args,
+          errorText,
+          modelId,
+          policy.weight,
+          selectLadder(profile.escalation, toolName, modelId),
+        );
+        const cycle = session.cycles.record(toolName, args, true);
+        const action = resolveAction(trackResult.action, cycle);
+
+        let newErrorText = action === "cycle-detected"
+          ? formatCycleMessage(cycle!)
+          : escalationMessage(trackResult, toolName, args, errorText, session.examples.get(toolName), profile.verbosity);
+
+        // Models retry a failed edit with the same wrong text — show them the
+        // closest region of the file so they can copy it exactly
+        const corrective = action === "corrective" || action === "corrective-example";
+        if (category === "edit-no-match" && corrective && profile.verbosity !== "minimal" && config.editHints !== false) {
+          const hint = buildEditHint(args, ctx.workspaceDir);
+          if (hint) newErrorText += `\n\n${hint}`;
+        }
+
+        logFailure(trackResult.stage, action, newErrorText);
+        if (shadow) {
+          // The model sees the original error, so that is what happened
+          persistFailure("passed");
+          return;
+        }
+        persistFailure(action);
+        session.corrected.add(toolName);
+
         // Replace error text in the message content
         return {
-          message: replaceErrorInMessage(message, newErrorText),
+          message: rewriteToolError(message, failure, newErrorText),
         };
       });
 
-      // Use after_tool_call for logging with full params (read-only)
-      api.on("after_tool_call", (event: any, _ctx: any) => {
-        if (!event.error) return;
-        void logger.log({
-          modelId: "unknown",
-          toolName: event.toolName ?? "unknown",
+      // Use after_tool_call to count every call (the error-rate denominator)
+      // and to log failures with full params (read-only)
+      api.on("after_tool_call", (event: any, ctx: any) => {
+        const toolName = event.toolName ?? "unknown";
+        const toolCallId = ctx?.toolCallId ?? event.toolCallId;
+        const session = sessions.get(resolveSessionKey(ctx, event));
+        const { provider, modelId } = attributeModel(session, toolCallId);
+
+        collector?.recordToolCall({
+          sessionKey: session.key,
+          provider,
+          model: modelId,
+          tool: toolName,
+          success: !event.error,
+          durationMs: typeof event.durationMs === "number" ? event.durationMs : undefined,
+          afterCorrection: session.corrected.delete(toolName),
+        });
+
+        if (!event.error || modeOf(session) === "off") return;
+        logEvent(session, toolCallId, "after_tool_call", {
+          toolName,
           args: event.params ?? {},
-          errorType: classifyError(event.error),
+          errorType: classifyError(event.error, rules, toolName),
+          category: categorizeError(event.error, rules, toolName),
           errorMessage: event.error,
         });
       });
     }
+
+    // In-channel control for operators: /toolguard status | reset | mode
+    api.registerCommand?.({
+      name: "toolguard",
+      description: "Tool guard for this session: status, reset, mode enforce|shadow|off",
+      acceptsArgs: true,
+      requireAuth: true,
+      handler: (ctx: any) =>
+        runToolGuardCommand(ctx, {
+          sessions,
+          defaultMode,
+          profileName: (session) => selectProfile(profiles, session.provider, session.model).name,
+        }),
+    });
+
+    // Follow which provider/model each session is running on, so failures
+    // are attributed to the real model instead of a toolCallId prefix guess
+    if (api.registerService) {
+      let unsubscribeModels: (() => void) | null = null;
+
+      api.registerService({
+        id: "tool-guard",
+        start: async () => {
+          unsubscribeModels = await subscribeDiagnostics((event: any) => {
+            if (event?.type !== "model.usage") return;
+            const key = event.sessionKey ?? event.sessionId;
+            if (key) sessions.setModel(key, event.provider, event.model);
+          });
+        },
+        stop: async () => {
+          unsubscribeModels?.();
+          await logger.close();
+        },
+      });
+    }
   }
 
   // ── Metrics ───────────────────────────────────────────────────────────────
@@ -99,7 +537,6 @@ export default function register(api: any) {
     };
 
     let db: MetricsDatabase | null = null;
-    let collector: MetricsCollector | null = null;
     let dashboard: DashboardServer | null = null;
     let unsubscribeDiagnostic: (() => void) | null = null;
 
@@ -108,23 +545,18 @@ export default function register(api: any) {
       start: async () => {
         try {
           db = new MetricsDatabase(dbPath);
-          collector = new MetricsCollector(db, { gatewayId });
+          collector = new MetricsCollector(db, { gatewayId, redaction });
 
-          // Try to import and subscribe to diagnostic events
-          try {
-            // @ts-ignore — openclaw/plugin-sdk is provided at runtime by the host
-            const sdk = await import("openclaw/plugin-sdk") as any;
-            if (sdk.onDiagnosticEvent) {
-              unsubscribeDiagnostic = sdk.onDiagnosticEvent((event: any) => {
-                if (event?.type === "model.usage" && collector) {
-                  collector.record(event);
-                }
-              });
-              console.log("[metrics] Subscribed to model.usage diagnostic events");
+          unsubscribeDiagnostic = await subscribeDiagnostics((event: any) => {
+            if (event?.type === "model.usage" && collector) {
+              collector.record(event);
             }
-          } catch (sdkErr) {
-            console.log("[metrics] Diagnostic events unavailable (SDK not loaded)");
-          }
+          });
+          console.log(
+            unsubscribeDiagnostic
+              ? "[metrics] Subscribed to model.usage diagnostic events"
+              : "[metrics] Diagnostic events unavailable (SDK not loaded)",
+          );
 
           const dashCfg = metricsConfig.dashboard ?? {};
           if (dashCfg.enabled !== false) {
@@ -143,12 +575,86 @@ export default function register(api: any) {
       },
       stop: async () => {
         collector?.stop();
+        collector = null;
         await dashboard?.stop();
         unsubscribeDiagnostic?.();
         db?.close();
       },
     });
   }
+
+  // ── CLI ───────────────────────────────────────────────────────────────────
+  api.registerCli?.(
+    ({ program }: any) => {
+      const toolGuard = program.command("tool-guard").description("Tool guard utilities");
+      toolGuard
+        .command("replay")
+        .description("Replay the attribution log against a candidate config and compare with the current one")
+        .option("--candidate <file>", "JSON file with config overrides to evaluate")
+        .option("--set <key=value>", "Override one config key (repeatable)", collectOption, [])
+        .option("--log <path>", "Attribution log to replay (default: the configured logPath)")
+        .option("--since <duration>", "Only replay failures from the last 24h, 7d, …")
+        .option("--json", "Print the full report as JSON")
+        .action(async (opts: any) => {
+          try {
+            const candidate = { ...config };
+            if (opts.candidate) Object.assign(candidate, JSON.parse(await readFile(expandPath(opts.candidate), "utf-8")));
+            for (const assignment of opts.set) applyOverride(candidate, assignment);
+
+            let since: Date | undefined;
+            if (opts.since) {
+              const ms = parseDuration(opts.since);
+              if (ms === null) throw new Error(`Invalid --since "${opts.since}" (expected e.g. 30m, 24h, 7d)`);
+              since = new Date(Date.now() - ms);
+            }
+
+            const logPath = expandPath(opts.log ?? config.logPath ?? "~/.openclaw/tool-guard.log");
+            const report = await replayLog(logPath, candidate, config, { since });
+            console.log(opts.json ? JSON.stringify(report, null, 2) : formatReplayReport(report));
+          } catch (err: any) {
+            console.error(`[tool-guard] Replay failed: ${err?.message ?? err}`);
+            process.exitCode = 1;
+          }
+        });
+    },
+    { commands: ["tool-guard"] },
+  );
+}
+
+function collectOption(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/** Apply `a.b=value` to a config object; values are parsed as JSON when possible */
+function applyOverride(target: Record<string, any>, assignment: string): void {
+  const eq = assignment.indexOf("=");
+  if (eq <= 0) throw new Error(`Invalid --set "${assignment}" (expected key=value)`);
+  const path = assignment.slice(0, eq).split(".");
+  const raw = assignment.slice(eq + 1);
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw;
+  }
+
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    node[key] = node[key] && typeof node[key] === "object" ? { ...node[key] } : {};
+    node = node[key];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+/** Subscribe to host diagnostic events; resolves null when the SDK is unavailable */
+async function subscribeDiagnostics(handler: (event: any) => void): Promise<(() => void) | null> {
+  try {
+    // @ts-ignore — openclaw/plugin-sdk is provided at runtime by the host
+    const sdk = await import("openclaw/plugin-sdk") as any;
+    return sdk.onDiagnosticEvent ? sdk.onDiagnosticEvent(handler) : null;
+  } catch {
+    return null;
+  }
 }
 
 /** Fire fn at 4 AM UTC each day */
@@ -167,54 +673,34 @@ function scheduleDailyCleanup(fn: () => void): void {
   if ((firstFire as any).unref) (firstFire as any).unref();
 }
 
+/**
+ * Tool definitions the host exposes at registration time, if any. Neither
+ * `api.runtime.tools` nor `api.tools` is part of the documented plugin API
+ * (docs/reference/plugin.md); both are probed in case the host provides them.
+ */
+function listHostTools(api: any): unknown[] {
+  try {
+    const tools = api.runtime?.tools?.list?.() ?? api.tools;
+    return Array.isArray(tools) ? tools : [];
+  } catch {
+    // Schema discovery is best-effort — built-in schemas still apply
+    return [];
+  }
+}
+
 function expandPath(p: string): string {
   if (p.startsWith("~/")) return resolve(homedir(), p.slice(2));
   return resolve(p);
 }
 
-/** Extract error text from an AgentMessage's content blocks */
-function extractErrorFromMessage(message: any): string | null {
-  if (!message?.content) return null;
-  const content = message.content;
-
-  // content can be string or array of blocks
-  if (typeof content === "string") {
-    if (content.includes("Missing required") || content.includes("Expected")) {
-      return content;
-    }
-    return null;
-  }
-
-  if (Array.isArray(content)) {
-    for (const block of content) {
-      if (block.type === "text" && typeof block.text === "string") {
-        if (
-          block.text.includes("Missing required") ||
-          block.text.includes("Expected") ||
-          block.text.includes("error")
-        ) {
-          return block.text;
-        }
-      }
-    }
-  }
-  return null;
+/** Remember a call shadow mode would have refused, keyed like recallArgs */
+function markShadowRefused(session: SessionState, toolName: string, toolCallId?: string): void {
+  session.shadowRefused.add(toolCallId ? `id:${toolCallId}` : `tool:${toolName}`);
 }
 
-/** Replace error text in message content blocks */
-function replaceErrorInMessage(message: any, newText: string): any {
-  const clone = JSON.parse(JSON.stringify(message));
-  if (typeof clone.content === "string") {
-    clone.content = newText;
-    return clone;
-  }
-  if (Array.isArray(clone.content)) {
-    for (const block of clone.content) {
-      if (block.type === "text" && typeof block.text === "string") {
-        block.text = newText;
-        return clone;
-      }
-    }
-  }
-  return clone;
+function takeShadowRefused(session: SessionState, toolName: string, toolCallId?: string): boolean {
+  return (
+    (!!toolCallId && session.shadowRefused.delete(`id:${toolCallId}`)) ||
+    session.shadowRefused.delete(`tool:${toolName}`)
+  );
 }
@@ -1,20 +1,161 @@
-import { TOOL_SCHEMAS, PARAM_ALIASES } from "./constants.js";
-
-const NON_RETRYABLE_PATTERNS = [
-  /Missing required parameter:/i,
-  /Missing parameters for/i,
-  /Expected .* but received/i,
-  /Missing required/i,
-  /type.*error/i,
+import { TOOL_SCHEMAS, PARAM_ALIASES, type ParamSpec } from "./constants.js";
+import type { SchemaRegistry } from "./schemas.js";
+import { matchRule, type CompiledRules } from "./rules.js";
+import { suggestName, suggestParams, formatParamSuggestions } from "./suggest.js";
+
+export type ErrorCategory =
+  | "missing-param"
+  | "type-mismatch"
+  | "unknown-tool"
+  | "not-found"
+  | "permission-denied"
+  | "timeout"
+  | "rate-limit"
+  | "malformed-json"
+  | "edit-no-match"
+  | "unknown";
+
+/**
+ * How much guidance corrective messages carry. Strong models only need the
+ * error tagged; weak ones benefit from the full schema and their own args echoed.
+ */
+export type Verbosity = "full" | "brief" | "minimal";
+
+export interface CategoryPolicy {
+  /** Leave the error untouched and let the model retry */
+  retryable: boolean;
+  /** How much one failure counts toward maxFailuresPerTurn */
+  weight: number;
+  /** Prefer the schema-derived parameter message when the tool's schema is known */
+  schemaHint: boolean;
+  /** Corrective text — placeholders: {tool}, {error}, {missing}, {args}, {usage} */
+  template: string;
+}
+
+// Order matters: the first matching category wins, so specific signatures
+// ("Tool not found", "old_string not found") sit above the generic ones
+const CATEGORY_PATTERNS: Array<[ErrorCategory, RegExp[]]> = [
+  ["missing-param", [
+    /Missing required parameter:/i,
+    /Missing parameters for/i,
+    /Missing required/i,
+    /must have required property/i,
+  ]],
+  ["malformed-json", [
+    /Unexpected token .* in JSON/i,
+    /Unexpected end of JSON/i,
+    /Unterminated string in JSON/i,
+    /in JSON at position \d+/i,
+    /must be a JSON object/i,
+    /(invalid|malformed|not valid) JSON/i,
+    /JSON\.parse/i,
+  ]],
+  ["unknown-tool", [
+    /unknown tool/i,
+    /no such tool/i,
+    /tool .*(not found|does not exist|is not available)/i,
+  ]],
+  ["edit-no-match", [
+    /could not find .*(text|string|match)/i,
+    /(old_string|oldText|string to replace) .*not found/i,
+    /no match(es)? found/i,
+  ]],
+  ["type-mismatch", [
+    /Expected .* but received/i,
+    /invalid type/i,
+    /must be (a |an )?(string|number|integer|boolean|array|object)/i,
+    /type.*error/i,
+  ]],
+  ["permission-denied", [/EACCES|EPERM/, /permission denied/i, /not permitted/i, /forbidden/i]],
+  ["rate-limit", [/rate.?limit/i, /too many requests/i, /\b429\b/]],
+  ["timeout", [/timed? ?out/i, /ETIMEDOUT/, /deadline exceeded/i]],
+  ["not-found", [/ENOENT/, /no such file or directory/i, /not found/i, /does not exist/i]],
 ];
 
-export function classifyError(errorMessage: string): "retryable" | "non-retryable" {
-  for (const pattern of NON_RETRYABLE_PATTERNS) {
-    if (pattern.test(errorMessage)) {
-      return "non-retryable";
+export const CATEGORY_POLICIES: Record<ErrorCategory, CategoryPolicy> = {
+  "missing-param": {
+    retryable: false,
+    weight: 1,
+    schemaHint: true,
+    template: "[TOOL ERROR] {tool}() failed: {error}. Check required parameters and retry with correct arguments.",
+  },
+  "type-mismatch": {
+    retryable: false,
+    weight: 1,
+    schemaHint: true,
+    template: "[TOOL ERROR] {tool}() failed: {error}. Check parameter types and retry with correct arguments.",
+  },
+  "unknown-tool": {
+    retryable: false,
+    weight: 1,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() is not an available tool: {error}. Only call tools listed in your tool definitions.",
+  },
+  "not-found": {
+    retryable: false,
+    weight: 1,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() failed: {error}. The target does not exist — verify the path or identifier instead of repeating the same call.",
+  },
+  "permission-denied": {
+    retryable: false,
+    weight: 2,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() failed: {error}. Access is denied and retrying will not help. Choose a different target or report the issue.",
+  },
+  "timeout": {
+    retryable: true,
+    weight: 0.5,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() timed out: {error}. Retry once; if it times out again, break the work into a smaller operation.",
+  },
+  "rate-limit": {
+    retryable: true,
+    weight: 0,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() was rate limited: {error}. Wait before retrying.",
+  },
+  "malformed-json": {
+    retryable: false,
+    weight: 1,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() arguments were not valid JSON: {error}. Send one well-formed JSON object. Correct usage: {usage}.",
+  },
+  "edit-no-match": {
+    retryable: false,
+    weight: 1,
+    schemaHint: false,
+    template: "[TOOL ERROR] {tool}() failed: {error}. old_string must match the file exactly, including whitespace. Read the file again and copy the exact text before retrying.",
+  },
+  "unknown": {
+    retryable: true,
+    weight: 1,
+    schemaHint: true,
+    template: "[TOOL ERROR] {tool}() failed: {error}. Check required parameters and retry with correct arguments.",
+  },
+};
+
+/** Configured rules (see rules.ts) are checked before the built-in patterns */
+export function categorizeError(errorMessage: string, rules?: CompiledRules, toolName?: string): ErrorCategory {
+  const rule = matchRule(rules, errorMessage, toolName);
+  if (rule) return rule.category;
+
+  for (const [category, patterns] of CATEGORY_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(errorMessage))) {
+      return category;
     }
   }
-  return "retryable";
+  return "unknown";
+}
+
+export function classifyError(
+  errorMessage: string,
+  rules?: CompiledRules,
+  toolName?: string,
+): "retryable" | "non-retryable" {
+  const rule = matchRule(rules, errorMessage, toolName);
+  const retryable = rule ? rule.action === "pass" : CATEGORY_POLICIES[categorizeError(errorMessage)].retryable;
+  return retryable ? "retryable" : "non-retryable";
 }
 
 export function inferModelFromToolCallId(toolCallId: string): string {
@@ -27,19 +168,27 @@ export function buildCorrectiveMessage(
   toolName: string,
   args: Record<string, unknown>,
   originalError: string,
+  schemas?: SchemaRegistry,
+  rules?: CompiledRules,
+  verbosity: Verbosity = "full",
 ): string {
-  const schema = TOOL_SCHEMAS[toolName];
-  if (!schema) {
-    return (
-      `[TOOL ERROR] ${toolName}() failed: ${originalError}. ` +
-      `Check required parameters and retry with correct arguments.`
-    );
+  const toolTemplate = rules?.templates[toolName];
+  if (verbosity === "minimal" && !toolTemplate) {
+    return `[TOOL ERROR] ${toolName}() failed: ${originalError}`;
+  }
+
+  const category = categorizeError(originalError, rules, toolName);
+  if (category === "unknown-tool" && !toolTemplate) {
+    return buildUnknownToolMessage(toolName, originalError, schemas);
   }
 
+  const schema = schemas ? schemas.get(toolName) : TOOL_SCHEMAS[toolName];
+  const policy = CATEGORY_POLICIES[category];
   const sentArgs = JSON.stringify(args);
+
   const missingParams: string[] = [];
 
-  for (const param of schema.required) {
+  for (const param of schema?.required ?? []) {
     const aliases = PARAM_ALIASES[param] ?? [param];
     const hasParam = aliases.some((alias) => alias in args && args[alias] != null);
     if (!hasParam) {
@@ -51,10 +200,84 @@ export function buildCorrectiveMessage(
     ? missingParams.map((p) => `'${p}'`).join(", ")
     : "valid values for its parameters";
 
+  if (toolTemplate || !schema || !policy.schemaHint) {
+    return renderTemplate(toolTemplate ?? policy.template, {
+      tool: toolName,
+      error: originalError,
+      missing,
+      args: sentArgs,
+      usage: schema?.usage ?? `${toolName}({ ... })`,
+    });
+  }
+
+  const suggestions = formatParamSuggestions(suggestParams(args, schema));
+
+  if (verbosity === "brief") {
+    return `[TOOL ERROR] ${toolName}() requires ${missing}. ${suggestions ? `${suggestions} ` : ""}Correct usage: ${schema.usage}.`;
+  }
+
+  const invalid = describeInvalidParams(args, schema.params ?? {});
+
   return (
     `[TOOL ERROR] ${toolName}() requires ${missing}. ` +
+    (suggestions ? `${suggestions} ` : "") +
+    (invalid.length > 0 ? `${invalid.join("; ")}. ` : "") +
     `Correct usage: ${schema.usage}. ` +
     `You sent: ${toolName}(${sentArgs}). ` +
     `Fix your call and retry.`
   );
 }
+
+/**
+ * The model called a tool that does not exist (`Read`, `file_read`). Name the
+ * closest registered tool and its usage rather than the generic template.
+ */
+function buildUnknownToolMessage(toolName: string, originalError: string, schemas?: SchemaRegistry): string {
+  const known = schemas ? schemas.names() : Object.keys(TOOL_SCHEMAS);
+  const suggestion = suggestName(toolName, known);
+  if (!suggestion) {
+    return renderTemplate(CATEGORY_POLICIES["unknown-tool"].template, { tool: toolName, error: originalError });
+  }
+  const usage = (schemas ? schemas.get(suggestion) : TOOL_SCHEMAS[suggestion])?.usage;
+  return (
+    `[TOOL ERROR] ${toolName}() is not an available tool. Did you mean ${suggestion}()? ` +
+    (usage ? `Correct usage: ${usage}. ` : "") +
+    `Only call tools listed in your tool definitions.`
+  );
+}
+
+/** Substitute {placeholders}; unknown placeholders are left as-is */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match);
+}
+
+/** Describe sent args whose value violates the schema's declared type or enum */
+function describeInvalidParams(args: Record<string, unknown>, params: Record<string, ParamSpec>): string[] {
+  const problems: string[] = [];
+  for (const [name, value] of Object.entries(args)) {
+    const spec = params[name];
+    if (!spec || value == null) continue;
+
+    if (spec.enum && !spec.enum.includes(value)) {
+      const allowed = spec.enum.map((v) => JSON.stringify(v)).join(", ");
+      problems.push(`'${name}' must be one of ${allowed}`);
+    } else if (spec.type && !matchesType(value, spec.type)) {
+      problems.push(`'${name}' must be ${spec.type} (got ${jsonType(value)})`);
+    }
+  }
+  return problems;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return type.split("|").some((t) =>
+    t === actual || (t === "number" && actual === "integer"),
+  );
+}
+
+function jsonType(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
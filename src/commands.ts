@@ -0,0 +1,140 @@
+import type { GuardMode, SessionRegistry, SessionState } from "./sessions.js";
+
+export interface ToolGuardCommandDeps {
+  sessions: SessionRegistry;
+  /** Mode from plugin config, for sessions without an override */
+  defaultMode: GuardMode;
+  /** Name of the profile applied to the session's current model */
+  profileName(session: SessionState): string;
+}
+
+const MODES: GuardMode[] = ["enforce", "shadow", "off"];
+const USAGE = "Usage: /toolguard status | reset | mode [enforce|shadow|off], optionally followed by a session key.";
+const MAX_LISTED = 10;
+
+const BLOCK_DESCRIPTIONS = {
+  failed: "failing tools are refused for the rest of the turn",
+  all: "all tools are refused for the rest of the turn",
+  abort: "turn aborted — every tool call is refused",
+};
+
+/**
+ * Handle `/toolguard <status|reset|mode>`. `ctx` is the host's command
+ * context. The session is an explicit key after the subcommand, else the
+ * session the host says the command came from. The documented context
+ * (`senderId`, `channel`, `args`, ...) carries no session, so on most hosts
+ * the key must be given: changes are refused without one, and `status`
+ * lists the sessions to choose from.
+ */
+export function runToolGuardCommand(ctx: any, deps: ToolGuardCommandDeps): { text: string } {
+  // The host enforces requireAuth; checked again so a misconfigured host can't expose it
+  if (ctx?.isAuthorizedSender === false) {
+    return { text: "Only authorized senders can use /toolguard." };
+  }
+
+  const [sub = "status", ...rest] = String(ctx?.args ?? "").trim().split(/\s+/).filter(Boolean);
+  switch (sub.toLowerCase()) {
+    case "status":
+      return { text: showStatus(ctx, rest[0], deps) };
+    case "reset":
+      return { text: resetSession(ctx, rest[0], deps) };
+    case "mode":
+      return { text: changeMode(ctx, rest, deps) };
+    default:
+      return { text: USAGE };
+  }
+}
+
+function showStatus(ctx: any, explicitKey: string | undefined, deps: ToolGuardCommandDeps): string {
+  const key = explicitKey ?? sessionKeyFrom(ctx);
+  if (!key) return listSessions(deps, "status");
+
+  const session = deps.sessions.peek(key);
+  return session ? formatStatus(session, deps) : `No tool activity recorded for session ${key} yet.`;
+}
+
+function resetSession(ctx: any, explicitKey: string | undefined, deps: ToolGuardCommandDeps): string {
+  const key = explicitKey ?? sessionKeyFrom(ctx);
+  if (!key) return needsKey(deps, "reset");
+  if (!deps.sessions.peek(key)) return `No tool activity recorded for session ${key} yet — nothing to reset.`;
+
+  deps.sessions.reset(key);
+  return `Cleared this turn's failures, loops and blocks for session ${key}.`;
+}
+
+function changeMode(ctx: any, args: string[], deps: ToolGuardCommandDeps): string {
+  const [requested, explicitKey] = args;
+  const key = explicitKey ?? sessionKeyFrom(ctx);
+
+  if (!requested) {
+    const session = key ? deps.sessions.peek(key) : undefined;
+    if (!session?.mode) return `Tool guard mode: ${deps.defaultMode}.`;
+    return `Tool guard mode for session ${session.key}: ${describeMode(session, deps)}.`;
+  }
+
+  const mode = requested.toLowerCase() as GuardMode;
+  if (!MODES.includes(mode)) return `Unknown mode "${requested}". ${USAGE}`;
+  if (!key) return needsKey(deps, `mode ${mode}`);
+
+  // Unlike status and reset, a mode can be set before the session's first tool call
+  deps.sessions.get(key).mode = mode;
+  return `Tool guard mode for session ${key} is now ${mode}.`;
+}
+
+function formatStatus(session: SessionState, deps: ToolGuardCommandDeps): string {
+  const snapshot = session.tracker.snapshot();
+  const model = [session.provider, session.model].filter(Boolean).join("/");
+  const lines = [
+    `Tool guard — session ${session.key}, turn ${session.turn}`,
+    `Mode: ${describeMode(session, deps)}`,
+    `Profile: ${deps.profileName(session)}${model ? ` (${model})` : ""}`,
+  ];
+
+  if (snapshot.failures === 0) {
+    lines.push("Failures this turn: none");
+  } else {
+    const weighted = snapshot.weightedFailures !== snapshot.failures ? ` (weighted ${snapshot.weightedFailures})` : "";
+    lines.push(`Failures this turn: ${snapshot.failures}${weighted} — ${snapshot.failedTools.join(", ")}`);
+  }
+  lines.push(`Blocked: ${snapshot.blockMode ? BLOCK_DESCRIPTIONS[snapshot.blockMode] : "no"}`);
+
+  if (snapshot.repeats.length > 0) {
+    lines.push("Repeated failures:");
+    for (const r of snapshot.repeats) {
+      lines.push(`- ${r.toolName} ×${r.count}: ${r.error.slice(0, 120)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Refusal for a change that would otherwise have to guess which session it targets */
+function needsKey(deps: ToolGuardCommandDeps, sub: string): string {
+  const refusal = `This channel does not identify a session, so /toolguard ${sub} needs one: /toolguard ${sub} <sessionKey>.`;
+  const sessions = deps.sessions.list();
+  return sessions.length > 0 ? `${refusal}\n${formatSessionList(sessions, deps)}` : refusal;
+}
+
+function listSessions(deps: ToolGuardCommandDeps, sub: string): string {
+  const sessions = deps.sessions.list();
+  if (sessions.length === 0) return "No tool activity recorded yet.";
+  return `${formatSessionList(sessions, deps)}\nFor details: /toolguard ${sub} <sessionKey>`;
+}
+
+function formatSessionList(sessions: SessionState[], deps: ToolGuardCommandDeps): string {
+  const lines = ["Active sessions, most recent first:"];
+  for (const session of sessions.slice(0, MAX_LISTED)) {
+    const { failures, blockMode } = session.tracker.snapshot();
+    const blocked = blockMode ? ", blocked" : "";
+    lines.push(`- ${session.key} — ${session.mode ?? deps.defaultMode}, turn ${session.turn}, ${failures} failures${blocked}`);
+  }
+  if (sessions.length > MAX_LISTED) lines.push(`… and ${sessions.length - MAX_LISTED} more`);
+  return lines.join("\n");
+}
+
+function describeMode(session: SessionState, deps: ToolGuardCommandDeps): string {
+  return session.mode ? `${session.mode} (session override; default ${deps.defaultMode})` : deps.defaultMode;
+}
+
+function sessionKeyFrom(ctx: any): string | undefined {
+  return ctx?.sessionKey ?? ctx?.sessionId;
+}
@@ -1,4 +1,15 @@
-export const TOOL_SCHEMAS: Record<string, { required: string[]; usage: string }> = {
+export interface ParamSpec {
+  type?: string;
+  enum?: unknown[];
+}
+
+export interface ToolSchema {
+  required: string[];
+  usage: string;
+  params?: Record<string, ParamSpec>;
+}
+
+export const TOOL_SCHEMAS: Record<string, ToolSchema> = {
   read: {
     required: ["path"],
     usage: 'read({ path: "path/to/file" })',
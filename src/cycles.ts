@@ -0,0 +1,97 @@
+import { fingerprintArgs } from "./fingerprint.js";
+
+export interface CycleConfig {
+  /** How many recent tool calls per session to scan for cycles (default 12) */
+  cycleWindow?: number;
+  /** Consecutive repeats of a cycle before intervening (default 2) */
+  minCycleRepeats?: number;
+}
+
+export interface CycleMatch {
+  /** One label per call in the cycle, e.g. `edit(path: "/src/app.ts")` */
+  calls: string[];
+  repeats: number;
+}
+
+interface CallEntry {
+  signature: string;
+  label: string;
+  failed: boolean;
+}
+
+const MIN_CYCLE = 2;
+const MAX_CYCLE = 4;
+
+/**
+ * Sliding-window detector for alternating patterns (A, B, A, B… or a
+ * trivial `read` between each failing `edit`). Per-key loop counting misses
+ * these because no single call repeats often enough on its own.
+ */
+export class CycleDetector {
+  private history: CallEntry[] = [];
+  private readonly window: number;
+  private readonly repeats: number;
+
+  constructor(config: CycleConfig = {}) {
+    this.repeats = Math.max(2, config.minCycleRepeats ?? 2);
+    this.window = Math.max(config.cycleWindow ?? 12, MAX_CYCLE * this.repeats);
+  }
+
+  /**
+   * Record a call. Returns the cycle it completes, if any — only when the
+   * call failed, since repeating successful work is not a stuck loop.
+   */
+  record(toolName: string, args: unknown, failed: boolean): CycleMatch | null {
+    const fingerprint = fingerprintArgs(args);
+    this.history.push({
+      signature: `${toolName}:${JSON.stringify(fingerprint)}`,
+      label: labelCall(toolName, fingerprint),
+      failed,
+    });
+    if (this.history.length > this.window) this.history.shift();
+    if (!failed) return null;
+
+    const match = this.detect();
+    // Start over so the same cycle must repeat again before the next intervention
+    if (match) this.history = [];
+    return match;
+  }
+
+  reset(): void {
+    this.history = [];
+  }
+
+  private detect(): CycleMatch | null {
+    for (let length = MIN_CYCLE; length <= MAX_CYCLE; length++) {
+      const span = length * this.repeats;
+      if (this.history.length < span) break;
+
+      const tail = this.history.slice(-span);
+      const cycle = tail.slice(0, length);
+      // A "cycle" of one repeated call is the loop breaker's job
+      if (new Set(cycle.map((c) => c.signature)).size < 2) continue;
+      if (!cycle.some((c) => c.failed)) continue;
+
+      const repeating = tail.every((entry, i) => entry.signature === cycle[i % length].signature);
+      if (repeating) return { calls: cycle.map((c) => c.label), repeats: this.repeats };
+    }
+    return null;
+  }
+}
+
+export function formatCycleMessage(match: CycleMatch): string {
+  return (
+    `[CYCLE DETECTED] Your last ${match.calls.length * match.repeats} tool calls repeat the same cycle ` +
+    `${match.repeats} times: ${match.calls.join(" → ")}. This sequence is not making progress. ` +
+    `Do NOT continue it — re-read the errors above and try a different approach, or report the issue.`
+  );
+}
+
+// Tool name plus its first string argument, which is usually the path or command
+function labelCall(toolName: string, fingerprint: Record<string, unknown>): string {
+  const entry = Object.entries(fingerprint).find(([, v]) => typeof v === "string");
+  if (!entry) return `${toolName}()`;
+  const [key, value] = entry as [string, string];
+  const shown = value.length > 40 ? `${value.slice(0, 40)}…` : value;
+  return `${toolName}(${key}: ${JSON.stringify(shown)})`;
+}
@@ -133,6 +133,23 @@ export class DashboardServer {
         const days = clampInt(url.searchParams.get("days"), 7, 1, 365);
         data = this.buildModels(days);
 
+      } else if (path === "/api/tool-failures") {
+        const hours = clampInt(url.searchParams.get("hours"), 24, 1, 24 * 30);
+        data = this.buildToolFailures(hours);
+
+      } else if (path === "/api/tool-failures/timeseries") {
+        const hours = clampInt(url.searchParams.get("hours"), 24, 1, 24 * 30);
+        const groupBy = url.searchParams.get("groupBy") === "model" ? "model" : "tool";
+        data = this.buildToolFailureTimeseries(hours, groupBy);
+
+      } else if (path === "/api/tool-calls") {
+        const hours = clampInt(url.searchParams.get("hours"), 24, 1, 24 * 30);
+        data = this.buildToolCalls(hours);
+
+      } else if (path === "/api/tool-failures/recent") {
+        const limit = clampInt(url.searchParams.get("limit"), 50, 1, 500);
+        data = this.buildRecentToolFailures(limit);
+
       } else {
         res.writeHead(404);
         res.end(JSON.stringify({ error: "Not found" }));
@@ -289,6 +306,184 @@ export class DashboardServer {
     }));
   }
 
+  private buildToolFailures(hours: number): object {
+    const rows = this.db.getToolFailureHourlyStats(hours);
+
+    const actions: Record<string, number> = {
+      passed: 0,
+      repaired: 0,
+      corrective: 0,
+      "corrective-example": 0,
+      "loop-detected": 0,
+      "cycle-detected": 0,
+      "hard-cap": 0,
+      "abort-turn": 0,
+      blocked: 0,
+    };
+    const toolMap = new Map<string, number>();
+    const modelMap = new Map<string, { failures: number; malformed: number }>();
+    let totalFailures = 0;
+
+    for (const row of rows) {
+      const count = (row.failure_count as number) || 0;
+      totalFailures += count;
+      actions[row.action] = (actions[row.action] ?? 0) + count;
+      toolMap.set(row.tool, (toolMap.get(row.tool) ?? 0) + count);
+
+      const m = (row.model as string) || "unknown";
+      const entry = modelMap.get(m) ?? { failures: 0, malformed: 0 };
+      entry.failures += count;
+      if (MALFORMED_CATEGORIES.has(row.category)) entry.malformed += count;
+      modelMap.set(m, entry);
+    }
+
+    // Denominator: recorded tool calls; models with none fall back to
+    // model calls from usage events over the same window
+    const toolCalls = new Map<string, number>();
+    for (const row of this.db.getToolCallHourlyStats(hours)) {
+      const m = (row.model as string) || "unknown";
+      toolCalls.set(m, (toolCalls.get(m) ?? 0) + ((row.call_count as number) || 0));
+    }
+    const modelCalls = new Map<string, number>();
+    for (const row of this.db.getHourlyStats(hours)) {
+      const m = row.model as string;
+      if (m) modelCalls.set(m, (modelCalls.get(m) ?? 0) + ((row.event_count as number) || 0));
+    }
+
+    const byTool = Array.from(toolMap.entries())
+      .map(([tool, failures]) => ({ tool, failures }))
+      .sort((a, b) => b.failures - a.failures);
+
+    const byModel = Array.from(modelMap.entries())
+      .map(([model, s]) => ({ model, failures: s.failures }))
+      .sort((a, b) => b.failures - a.failures);
+
+    const malformedLeaderboard = Array.from(modelMap.entries())
+      .map(([model, s]) => {
+        const calls = toolCalls.get(model) ?? modelCalls.get(model) ?? 0;
+        return { model, malformed: s.malformed, calls, rate: calls > 0 ? s.malformed / calls : null };
+      })
+      .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || b.malformed - a.malformed);
+
+    const topSignatures = this.db.getToolFailureSignatures(hours, 10).map((r: any) => ({
+      tool: r.tool,
+      category: r.category,
+      signature: r.signature,
+      failures: r.failure_count,
+      models: r.model_count,
+      lastSeen: r.last_seen,
+    }));
+
+    return {
+      totalFailures,
+      // Escalation variants roll up into the stage they extend
+      corrective: actions.corrective + actions["corrective-example"],
+      loopDetected: actions["loop-detected"],
+      cycleDetected: actions["cycle-detected"],
+      hardCap: actions["hard-cap"] + actions["abort-turn"],
+      blocked: actions.blocked,
+      repaired: actions.repaired,
+      passed: actions.passed,
+      byTool,
+      byModel,
+      topSignatures,
+      malformedLeaderboard,
+    };
+  }
+
+  private buildToolCalls(hours: number): object {
+    const stats = new Map<string, {
+      model: string; tool: string; calls: number; errors: number;
+      durationMs: number; corrected: number; correctedSuccess: number;
+    }>();
+
+    for (const row of this.db.getToolCallHourlyStats(hours)) {
+      const model = (row.model as string) || "unknown";
+      const key = `${model}\u0000${row.tool}`;
+      const s = stats.get(key) ?? { model, tool: row.tool, calls: 0, errors: 0, durationMs: 0, corrected: 0, correctedSuccess: 0 };
+      s.calls += (row.call_count as number) || 0;
+      s.errors += (row.error_count as number) || 0;
+      s.durationMs += (row.total_duration_ms as number) || 0;
+      s.corrected += (row.corrected_count as number) || 0;
+      s.correctedSuccess += (row.corrected_success_count as number) || 0;
+      stats.set(key, s);
+    }
+
+    // Rows arrive sorted by model, tool, duration — collect per-pair samples
+    const durations = new Map<string, number[]>();
+    for (const row of this.db.getToolCallDurations(hours)) {
+      const key = `${(row.model as string) || "unknown"}\u0000${row.tool}`;
+      const list = durations.get(key) ?? [];
+      list.push(row.duration_ms as number);
+      durations.set(key, list);
+    }
+
+    let totalCalls = 0;
+    let totalErrors = 0;
+    const rows = Array.from(stats.entries()).map(([key, s]) => {
+      totalCalls += s.calls;
+      totalErrors += s.errors;
+      const samples = durations.get(key) ?? [];
+      return {
+        model: s.model,
+        tool: s.tool,
+        calls: s.calls,
+        errors: s.errors,
+        errorRate: s.calls > 0 ? s.errors / s.calls : 0,
+        avgDurationMs: samples.length > 0 ? s.durationMs / samples.length : null,
+        p50DurationMs: percentile(samples, 0.5),
+        p95DurationMs: percentile(samples, 0.95),
+        corrected: s.corrected,
+        correctionSuccessRate: s.corrected > 0 ? s.correctedSuccess / s.corrected : null,
+      };
+    }).sort((a, b) => b.errorRate - a.errorRate || b.calls - a.calls);
+
+    return {
+      totalCalls,
+      totalErrors,
+      errorRate: totalCalls > 0 ? totalErrors / totalCalls : 0,
+      byModelTool: rows,
+    };
+  }
+
+  private buildToolFailureTimeseries(hours: number, groupBy: "tool" | "model"): object {
+    const rows = this.db.getToolFailureHourlyStats(hours);
+    const hoursSeen = new Set<string>();
+    const series = new Map<string, Map<string, number>>();
+
+    for (const row of rows) {
+      const ts = row.hour as string;
+      const key = (row[groupBy] as string) || "unknown";
+      hoursSeen.add(ts);
+      const counts = series.get(key) ?? new Map<string, number>();
+      counts.set(ts, (counts.get(ts) ?? 0) + ((row.failure_count as number) || 0));
+      series.set(key, counts);
+    }
+
+    const timestamps = Array.from(hoursSeen).sort();
+    return {
+      timestamps,
+      series: Array.from(series.entries()).map(([key, counts]) => ({
+        key,
+        counts: timestamps.map((ts) => counts.get(ts) ?? 0),
+      })),
+    };
+  }
+
+  private buildRecentToolFailures(limit: number): object[] {
+    return this.db.getToolFailures(24 * 30, limit).map((r: any) => ({
+      timestamp: r.ts,
+      gateway: r.gateway_id,
+      session: r.session_key,
+      provider: r.provider,
+      model: r.model,
+      tool: r.tool,
+      category: r.category,
+      action: r.action,
+      error: r.error_message,
+    }));
+  }
+
   private serveStatic(urlPath: string, res: any): void {
     let filePath = urlPath === "/" ? "index.html" : urlPath.replace(/^\//, "");
     filePath = join(this.dashboardDir, filePath);
@@ -333,6 +528,15 @@ export class DashboardServer {
   }
 }
 
+// Categories that mean the model produced a malformed call, not a runtime failure
+const MALFORMED_CATEGORIES = new Set(["missing-param", "type-mismatch", "unknown-tool", "malformed-json"]);
+
+/** Nearest-rank percentile of an ascending list */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
 function clampInt(value: string | null, defaultVal: number, min: number, max: number): number {
   const n = value !== null ? parseInt(value, 10) : defaultVal;
   return isNaN(n) ? defaultVal : Math.max(min, Math.min(max, n));
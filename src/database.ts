@@ -4,7 +4,7 @@ import { homedir } from "node:os";
 import { mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 4;
 
 export interface UsageEvent {
   ts: string;
@@ -26,6 +26,46 @@ export interface UsageEvent {
   contextUsed?: number;
 }
 
+export type GuardAction =
+  | "passed"
+  | "repaired"
+  | "corrective"
+  | "corrective-example"
+  | "loop-detected"
+  | "cycle-detected"
+  | "hard-cap"
+  | "abort-turn"
+  | "blocked";
+
+export interface ToolFailureEvent {
+  ts: string;
+  gatewayId?: string;
+  sessionKey?: string;
+  provider?: string;
+  model?: string;
+  tool: string;
+  category: string;
+  action: GuardAction;
+  errorMessage?: string;
+  /** Already redacted — see redactArgs */
+  args?: unknown;
+  /** Hash of the unredacted args — see hashArgs */
+  argsHash?: string;
+}
+
+export interface ToolCallEvent {
+  ts: string;
+  gatewayId?: string;
+  sessionKey?: string;
+  provider?: string;
+  model?: string;
+  tool: string;
+  success: boolean;
+  durationMs?: number;
+  /** The call followed a corrective message for the same tool in this session */
+  afterCorrection?: boolean;
+}
+
 export interface RetentionConfig {
   rawDays: number;
   hourlyDays: number;
@@ -82,6 +122,79 @@ const DDL_STATEMENTS = [
     cost_usd REAL DEFAULT 0,
     PRIMARY KEY (day, gateway_id, model)
   )`,
+  `CREATE TABLE IF NOT EXISTS tool_failures (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ts TEXT NOT NULL,
+    gateway_id TEXT,
+    session_key TEXT,
+    provider TEXT,
+    model TEXT,
+    tool TEXT NOT NULL,
+    category TEXT NOT NULL,
+    action TEXT NOT NULL,
+    error_message TEXT,
+    args TEXT,
+    args_hash TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_tool_failures_ts ON tool_failures(ts)`,
+  `CREATE INDEX IF NOT EXISTS idx_tool_failures_model ON tool_failures(model)`,
+  `CREATE TABLE IF NOT EXISTS tool_failure_hourly (
+    hour TEXT NOT NULL,
+    gateway_id TEXT NOT NULL DEFAULT '',
+    model TEXT NOT NULL DEFAULT '',
+    tool TEXT NOT NULL,
+    category TEXT NOT NULL,
+    action TEXT NOT NULL,
+    failure_count INTEGER DEFAULT 0,
+    PRIMARY KEY (hour, gateway_id, model, tool, category, action)
+  )`,
+  `CREATE TABLE IF NOT EXISTS tool_failure_daily (
+    day TEXT NOT NULL,
+    gateway_id TEXT NOT NULL DEFAULT '',
+    model TEXT NOT NULL DEFAULT '',
+    tool TEXT NOT NULL,
+    category TEXT NOT NULL,
+    action TEXT NOT NULL,
+    failure_count INTEGER DEFAULT 0,
+    PRIMARY KEY (day, gateway_id, model, tool, category, action)
+  )`,
+  `CREATE TABLE IF NOT EXISTS tool_calls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ts TEXT NOT NULL,
+    gateway_id TEXT,
+    session_key TEXT,
+    provider TEXT,
+    model TEXT,
+    tool TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    duration_ms INTEGER,
+    after_correction INTEGER NOT NULL DEFAULT 0
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_tool_calls_ts ON tool_calls(ts)`,
+  `CREATE TABLE IF NOT EXISTS tool_call_hourly (
+    hour TEXT NOT NULL,
+    gateway_id TEXT NOT NULL DEFAULT '',
+    model TEXT NOT NULL DEFAULT '',
+    tool TEXT NOT NULL,
+    call_count INTEGER DEFAULT 0,
+    error_count INTEGER DEFAULT 0,
+    total_duration_ms INTEGER DEFAULT 0,
+    corrected_count INTEGER DEFAULT 0,
+    corrected_success_count INTEGER DEFAULT 0,
+    PRIMARY KEY (hour, gateway_id, model, tool)
+  )`,
+  `CREATE TABLE IF NOT EXISTS tool_call_daily (
+    day TEXT NOT NULL,
+    gateway_id TEXT NOT NULL DEFAULT '',
+    model TEXT NOT NULL DEFAULT '',
+    tool TEXT NOT NULL,
+    call_count INTEGER DEFAULT 0,
+    error_count INTEGER DEFAULT 0,
+    total_duration_ms INTEGER DEFAULT 0,
+    corrected_count INTEGER DEFAULT 0,
+    corrected_success_count INTEGER DEFAULT 0,
+    PRIMARY KEY (day, gateway_id, model, tool)
+  )`,
 ];
 
 export class MetricsDatabase {
@@ -104,6 +217,13 @@ export class MetricsDatabase {
       this.db.prepare(stmt).run();
     }
 
+    // v4: databases created before args were hashed lack the column
+    const failureColumns = this.db.prepare("PRAGMA table_info(tool_failures)").all() as { name: string }[];
+    if (!failureColumns.some((c) => c.name === "args_hash")) {
+      this.db.prepare("ALTER TABLE tool_failures ADD COLUMN args_hash TEXT").run();
+    }
+    this.db.prepare("CREATE INDEX IF NOT EXISTS idx_tool_failures_args_hash ON tool_failures(args_hash)").run();
+
     const existing = this.db
       .prepare("SELECT version FROM schema_version WHERE version = ?")
       .get(SCHEMA_VERSION);
@@ -178,6 +298,81 @@ export class MetricsDatabase {
     })();
   }
 
+  recordToolFailure(event: ToolFailureEvent): void {
+    const gatewayId = event.gatewayId ?? "";
+    const model = event.model ?? "";
+
+    const insertRaw = this.db.prepare(`
+      INSERT INTO tool_failures (
+        ts, gateway_id, session_key, provider, model,
+        tool, category, action, error_message, args, args_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const upsertHourly = this.db.prepare(`
+      INSERT INTO tool_failure_hourly (hour, gateway_id, model, tool, category, action, failure_count)
+      VALUES (?, ?, ?, ?, ?, ?, 1)
+      ON CONFLICT(hour, gateway_id, model, tool, category, action) DO UPDATE SET
+        failure_count = failure_count + 1
+    `);
+
+    const upsertDaily = this.db.prepare(`
+      INSERT INTO tool_failure_daily (day, gateway_id, model, tool, category, action, failure_count)
+      VALUES (?, ?, ?, ?, ?, ?, 1)
+      ON CONFLICT(day, gateway_id, model, tool, category, action) DO UPDATE SET
+        failure_count = failure_count + 1
+    `);
+
+    this.db.transaction(() => {
+      insertRaw.run(
+        event.ts, gatewayId, event.sessionKey ?? null, event.provider ?? null, event.model ?? null,
+        event.tool, event.category, event.action, event.errorMessage ?? null,
+        event.args === undefined ? null : JSON.stringify(event.args),
+        event.argsHash ?? null,
+      );
+      upsertHourly.run(toHour(event.ts), gatewayId, model, event.tool, event.category, event.action);
+      upsertDaily.run(toDay(event.ts), gatewayId, model, event.tool, event.category, event.action);
+    })();
+  }
+
+  recordToolCall(event: ToolCallEvent): void {
+    const gatewayId = event.gatewayId ?? "";
+    const model = event.model ?? "";
+    const errors = event.success ? 0 : 1;
+    const duration = event.durationMs ?? 0;
+    const corrected = event.afterCorrection ? 1 : 0;
+    const correctedSuccess = event.afterCorrection && event.success ? 1 : 0;
+
+    const insertRaw = this.db.prepare(`
+      INSERT INTO tool_calls (
+        ts, gateway_id, session_key, provider, model,
+        tool, success, duration_ms, after_correction
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const upsert = (table: string, bucket: string) => this.db.prepare(`
+      INSERT INTO ${table} (${bucket}, gateway_id, model, tool, call_count, error_count, total_duration_ms, corrected_count, corrected_success_count)
+      VALUES (?, ?, ?, ?, 1, ?, ?, ?, ?)
+      ON CONFLICT(${bucket}, gateway_id, model, tool) DO UPDATE SET
+        call_count = call_count + 1,
+        error_count = error_count + excluded.error_count,
+        total_duration_ms = total_duration_ms + excluded.total_duration_ms,
+        corrected_count = corrected_count + excluded.corrected_count,
+        corrected_success_count = corrected_success_count + excluded.corrected_success_count
+    `);
+    const upsertHourly = upsert("tool_call_hourly", "hour");
+    const upsertDaily = upsert("tool_call_daily", "day");
+
+    this.db.transaction(() => {
+      insertRaw.run(
+        event.ts, gatewayId, event.sessionKey ?? null, event.provider ?? null, event.model ?? null,
+        event.tool, event.success ? 1 : 0, event.durationMs ?? null, corrected,
+      );
+      upsertHourly.run(toHour(event.ts), gatewayId, model, event.tool, errors, duration, corrected, correctedSuccess);
+      upsertDaily.run(toDay(event.ts), gatewayId, model, event.tool, errors, duration, corrected, correctedSuccess);
+    })();
+  }
+
   getHourlyStats(hours: number): any[] {
     const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().slice(0, 13) + ":00:00Z";
     return this.db.prepare(`
@@ -223,6 +418,84 @@ export class MetricsDatabase {
     `).get(last24h);
   }
 
+  getToolFailures(hours: number, limit = 100): any[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    return this.db.prepare(`
+      SELECT ts, gateway_id, session_key, provider, model, tool, category, action, error_message, args, args_hash
+      FROM tool_failures
+      WHERE ts >= ?
+      ORDER BY ts DESC
+      LIMIT ?
+    `).all(cutoff, limit);
+  }
+
+  getToolFailureHourlyStats(hours: number): any[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().slice(0, 13) + ":00:00Z";
+    return this.db.prepare(`
+      SELECT hour, gateway_id, model, tool, category, action, failure_count
+      FROM tool_failure_hourly
+      WHERE hour >= ?
+      ORDER BY hour ASC
+    `).all(cutoff);
+  }
+
+  getToolFailureDailyStats(days: number): any[] {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return this.db.prepare(`
+      SELECT day, gateway_id, model, tool, category, action, failure_count
+      FROM tool_failure_daily
+      WHERE day >= ?
+      ORDER BY day ASC
+    `).all(cutoff);
+  }
+
+  getToolCallHourlyStats(hours: number): any[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString().slice(0, 13) + ":00:00Z";
+    return this.db.prepare(`
+      SELECT hour, gateway_id, model, tool, call_count, error_count, total_duration_ms,
+        corrected_count, corrected_success_count
+      FROM tool_call_hourly
+      WHERE hour >= ?
+      ORDER BY hour ASC
+    `).all(cutoff);
+  }
+
+  getToolCallDailyStats(days: number): any[] {
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return this.db.prepare(`
+      SELECT day, gateway_id, model, tool, call_count, error_count, total_duration_ms,
+        corrected_count, corrected_success_count
+      FROM tool_call_daily
+      WHERE day >= ?
+      ORDER BY day ASC
+    `).all(cutoff);
+  }
+
+  /** Raw call durations, ordered so percentiles can be read off per model/tool */
+  getToolCallDurations(hours: number): any[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    return this.db.prepare(`
+      SELECT model, tool, duration_ms
+      FROM tool_calls
+      WHERE ts >= ? AND duration_ms IS NOT NULL
+      ORDER BY model, tool, duration_ms ASC
+    `).all(cutoff);
+  }
+
+  /** Most frequent failures grouped by tool, category and error text */
+  getToolFailureSignatures(hours: number, limit = 10): any[] {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    return this.db.prepare(`
+      SELECT tool, category, substr(COALESCE(error_message, ''), 1, 160) as signature,
+        COUNT(*) as failure_count, COUNT(DISTINCT model) as model_count, MAX(ts) as last_seen
+      FROM tool_failures
+      WHERE ts >= ?
+      GROUP BY tool, category, signature
+      ORDER BY failure_count DESC
+      LIMIT ?
+    `).all(cutoff, limit);
+  }
+
   cleanupOldData(retention: RetentionConfig): void {
     const rawCutoff = new Date(Date.now() - retention.rawDays * 24 * 60 * 60 * 1000).toISOString();
     const hourlyCutoff = new Date(Date.now() - retention.hourlyDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 13) + ":00:00Z";
@@ -231,11 +504,23 @@ export class MetricsDatabase {
     const deleteRaw = this.db.prepare("DELETE FROM usage_events WHERE ts < ?");
     const deleteHourly = this.db.prepare("DELETE FROM hourly_stats WHERE hour < ?");
     const deleteDaily = this.db.prepare("DELETE FROM daily_stats WHERE day < ?");
+    const deleteFailuresRaw = this.db.prepare("DELETE FROM tool_failures WHERE ts < ?");
+    const deleteFailuresHourly = this.db.prepare("DELETE FROM tool_failure_hourly WHERE hour < ?");
+    const deleteFailuresDaily = this.db.prepare("DELETE FROM tool_failure_daily WHERE day < ?");
+    const deleteCallsRaw = this.db.prepare("DELETE FROM tool_calls WHERE ts < ?");
+    const deleteCallsHourly = this.db.prepare("DELETE FROM tool_call_hourly WHERE hour < ?");
+    const deleteCallsDaily = this.db.prepare("DELETE FROM tool_call_daily WHERE day < ?");
 
     this.db.transaction(() => {
       deleteRaw.run(rawCutoff);
       deleteHourly.run(hourlyCutoff);
       deleteDaily.run(dailyCutoff);
+      deleteFailuresRaw.run(rawCutoff);
+      deleteFailuresHourly.run(hourlyCutoff);
+      deleteFailuresDaily.run(dailyCutoff);
+      deleteCallsRaw.run(rawCutoff);
+      deleteCallsHourly.run(hourlyCutoff);
+      deleteCallsDaily.run(dailyCutoff);
     })();
 
     // Reclaim deleted space
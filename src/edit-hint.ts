@@ -0,0 +1,141 @@
+import { readFileSync, realpathSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import { normalizeText, similarity } from "./fingerprint.js";
+
+export interface SnippetMatch {
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  /** 1 = same text apart from whitespace */
+  score: number;
+}
+
+// The hook runs synchronously, so the search is bounded on every axis:
+// file size, needle size, and how many windows get the full similarity score
+const MAX_FILE_BYTES = 128 * 1024;
+const MAX_NEEDLE_CHARS = 8 * 1024;
+const MAX_SCORED_WINDOWS = 40;
+const MAX_SNIPPET_LINES = 30;
+const MIN_SCORE = 0.5;
+
+const TOKEN = /[A-Za-z_$][\w$]*|\d+/g;
+
+/**
+ * Region of `fileText` closest to `needle`, compared whitespace-insensitively
+ * and fuzzily over windows of about the needle's line count. Windows are
+ * first ranked by the needle tokens they share (rarer tokens count more) and
+ * only the best few are scored. Null when nothing is similar enough to be
+ * worth showing, or the needle is too large to search for.
+ */
+export function findNearestSnippet(fileText: string, needle: string): SnippetMatch | null {
+  const target = normalizeText(needle);
+  if (target === "" || needle.length > MAX_NEEDLE_CHARS) return null;
+  const bare = stripWhitespace(needle);
+
+  const fileLines = fileText.split("\n");
+  const needleLines = needle.split("\n").length;
+  const sizes = [...new Set([needleLines, needleLines - 1, needleLines + 1])].filter((n) => n >= 1);
+
+  let best: SnippetMatch | null = null;
+  for (const { start, size } of candidateWindows(fileLines, needle, sizes)) {
+    const window = fileLines.slice(start, start + size);
+    const joined = window.join("\n");
+    const text = normalizeText(joined);
+    if (text === "") continue;
+    const score = stripWhitespace(joined) === bare ? 1 : similarity(text, target);
+    if (!best || score > best.score) {
+      best = { startLine: start + 1, endLine: start + size, lines: window, score };
+      if (score === 1) return best;
+    }
+  }
+
+  return best && best.score >= MIN_SCORE ? best : null;
+}
+
+/**
+ * The windows most worth scoring: each file line is weighted by the needle
+ * tokens it contains, 1/(occurrences in the file) each, and windows are
+ * ranked by their summed weight using prefix sums. Needles without tokens
+ * (punctuation only) fall back to a plain scan of short files.
+ */
+function candidateWindows(fileLines: string[], needle: string, sizes: number[]): { start: number; size: number }[] {
+  const needleTokens = new Set(needle.match(TOKEN) ?? []);
+  const lineTokens = fileLines.map((line) => new Set((line.match(TOKEN) ?? []).filter((t) => needleTokens.has(t))));
+
+  const frequency = new Map<string, number>();
+  for (const tokens of lineTokens) {
+    for (const t of tokens) frequency.set(t, (frequency.get(t) ?? 0) + 1);
+  }
+
+  const prefix = [0];
+  for (const tokens of lineTokens) {
+    let weight = 0;
+    for (const t of tokens) weight += 1 / frequency.get(t)!;
+    prefix.push(prefix[prefix.length - 1] + weight);
+  }
+
+  const windows: { start: number; size: number; weight: number }[] = [];
+  for (const size of sizes) {
+    for (let start = 0; start + size <= fileLines.length; start++) {
+      const weight = prefix[start + size] - prefix[start];
+      if (weight > 0 || frequency.size === 0) windows.push({ start, size, weight });
+    }
+  }
+  if (frequency.size === 0 && windows.length > MAX_SCORED_WINDOWS * sizes.length) return [];
+
+  windows.sort((a, b) => b.weight - a.weight);
+  return windows.slice(0, MAX_SCORED_WINDOWS);
+}
+
+/** Snippet with right-aligned line numbers, as the model would see it from `read` */
+export function formatSnippet(match: SnippetMatch): string {
+  const lines = match.lines.slice(0, MAX_SNIPPET_LINES);
+  const width = String(match.startLine + lines.length - 1).length;
+  const body = lines.map((line, i) => `${String(match.startLine + i).padStart(width)} | ${line}`).join("\n");
+  return match.lines.length > lines.length ? `${body}\n${"".padStart(width)} | …` : body;
+}
+
+/**
+ * Hint for a failed edit: read the target file and show the closest region
+ * to `old_string`. The file must lie inside `workspaceDir`, since its
+ * contents are shown to the model. Returns null when there is no workspace,
+ * the file is outside it or can't be read, or nothing is close.
+ */
+export function buildEditHint(args: Record<string, unknown>, workspaceDir?: string): string | null {
+  const path = args.path ?? args.file_path;
+  const oldString = args.old_string ?? args.oldText;
+  if (typeof path !== "string" || typeof oldString !== "string" || !workspaceDir) return null;
+
+  let text: string;
+  try {
+    const fullPath = resolveInWorkspace(path, workspaceDir);
+    if (!fullPath || statSync(fullPath).size > MAX_FILE_BYTES) return null;
+    text = readFileSync(fullPath, "utf-8");
+  } catch {
+    return null;
+  }
+
+  const match = findNearestSnippet(text, oldString);
+  if (!match) return null;
+
+  const range = match.startLine === match.endLine ? `line ${match.startLine}` : `lines ${match.startLine}-${match.endLine}`;
+  const kind = match.score === 1 ? "matches except for whitespace" : "is the closest match";
+  return (
+    `The text at ${range} of ${path} ${kind}:\n${formatSnippet(match)}\n` +
+    `Copy old_string exactly from these lines (without the line-number prefix).`
+  );
+}
+
+function stripWhitespace(text: string): string {
+  return text.replace(/\s+/g, "");
+}
+
+/** Real path of `path` if it is inside `workspaceDir` (after following symlinks), else null; throws if missing */
+function resolveInWorkspace(path: string, workspaceDir: string): string | null {
+  const expanded = path.startsWith("~/") ? resolve(homedir(), path.slice(2)) : resolve(workspaceDir, path);
+  const real = realpathSync(expanded);
+  const rel = relative(realpathSync(workspaceDir), real);
+  return rel !== "" && rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel) ? real : null;
+}
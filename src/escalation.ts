@@ -0,0 +1,148 @@
+export type EscalationAction =
+  | "corrective"
+  | "corrective-example"
+  | "loop-detected"
+  | "block-tools"
+  | "abort-turn";
+
+/**
+ * One rung of an escalation ladder. A stage applies once any of its
+ * thresholds is reached; a stage with no thresholds always applies.
+ */
+export interface EscalationStage {
+  action: EscalationAction;
+  /** Near-identical failures of the same call this turn */
+  identical?: number;
+  /** Weighted failures this turn (see CATEGORY_POLICIES weights) */
+  turnFailures?: number;
+  /** Replacement message; placeholders {tool} {count} {failures} {error} */
+  template?: string;
+  /** block-tools only: block every tool, not just the ones that failed */
+  allTools?: boolean;
+}
+
+/** The `escalation` config section: a default ladder plus per-tool and per-model overrides */
+export interface EscalationConfig {
+  default?: EscalationStage[];
+  tools?: Record<string, EscalationStage[]>;
+  models?: Record<string, EscalationStage[]>;
+}
+
+export interface CompiledEscalation {
+  default: EscalationStage[];
+  tools: Record<string, EscalationStage[]>;
+  models: Record<string, EscalationStage[]>;
+  /** Why each skipped ladder was rejected */
+  errors: string[];
+}
+
+/** The stage picked for one failure; `stage` is 1-based for logs */
+export interface EscalationDecision {
+  stage: number;
+  action: EscalationAction;
+  definition: EscalationStage;
+}
+
+export interface LadderDefaults {
+  maxIdenticalFailures?: number;
+  maxFailuresPerTurn?: number;
+  blockAllToolsAfterCap?: boolean;
+}
+
+const ACTIONS: EscalationAction[] = ["corrective", "corrective-example", "loop-detected", "block-tools", "abort-turn"];
+
+/**
+ * The historical fixed behavior expressed as a ladder: correct, break the
+ * loop at `maxIdenticalFailures`, block failing tools at `maxFailuresPerTurn`.
+ */
+export function defaultLadder(config: LadderDefaults = {}): EscalationStage[] {
+  return [
+    { action: "corrective" },
+    { action: "loop-detected", identical: config.maxIdenticalFailures ?? 2 },
+    { action: "block-tools", turnFailures: config.maxFailuresPerTurn ?? 5, allTools: config.blockAllToolsAfterCap ?? false },
+  ];
+}
+
+/**
+ * Compile the `escalation` config section. The default ladder stands in
+ * for any ladder that fails to compile.
+ */
+export function compileEscalation(
+  config: EscalationConfig | undefined,
+  defaults: LadderDefaults = {},
+): CompiledEscalation {
+  const compiled: CompiledEscalation = { default: defaultLadder(defaults), tools: {}, models: {}, errors: [] };
+  if (!config || typeof config !== "object") return compiled;
+
+  if (config.default !== undefined) {
+    const ladder = compileLadder("default", config.default, compiled.errors);
+    if (ladder) compiled.default = ladder;
+  }
+  for (const section of ["tools", "models"] as const) {
+    for (const [name, stages] of Object.entries(config[section] ?? {})) {
+      const ladder = compileLadder(`${section}.${name}`, stages, compiled.errors);
+      if (ladder) compiled[section][name] = ladder;
+    }
+  }
+  return compiled;
+}
+
+/** Ladder for a call: a per-tool ladder wins over a per-model one, then the default */
+export function selectLadder(compiled: CompiledEscalation, toolName: string, modelId?: string): EscalationStage[] {
+  return compiled.tools[toolName] ?? (modelId ? compiled.models[modelId] : undefined) ?? compiled.default;
+}
+
+/** Highest stage whose threshold has been reached */
+export function selectStage(
+  ladder: EscalationStage[],
+  counts: { identical: number; turnFailures: number },
+): EscalationDecision {
+  for (let i = ladder.length - 1; i >= 0; i--) {
+    const stage = ladder[i];
+    if (reached(stage, counts)) return { stage: i + 1, action: stage.action, definition: stage };
+  }
+  // Compiled ladders always start with a threshold-free stage; this is for hand-built ones
+  return { stage: 0, action: "corrective", definition: { action: "corrective" } };
+}
+
+function reached(stage: EscalationStage, counts: { identical: number; turnFailures: number }): boolean {
+  if (stage.identical === undefined && stage.turnFailures === undefined) return true;
+  return (
+    (stage.identical !== undefined && counts.identical >= stage.identical) ||
+    (stage.turnFailures !== undefined && counts.turnFailures >= stage.turnFailures)
+  );
+}
+
+function compileLadder(where: string, stages: unknown, errors: string[]): EscalationStage[] | null {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    errors.push(`${where}: must be a non-empty array of stages`);
+    return null;
+  }
+
+  const ladder: EscalationStage[] = [];
+  for (const [i, stage] of stages.entries()) {
+    if (!ACTIONS.includes(stage?.action)) {
+      errors.push(`${where}[${i}]: action must be one of ${ACTIONS.join(", ")}`);
+      return null;
+    }
+    for (const key of ["identical", "turnFailures"] as const) {
+      const value = stage[key];
+      if (value !== undefined && !(typeof value === "number" && value >= 1)) {
+        errors.push(`${where}[${i}]: "${key}" must be a number >= 1`);
+        return null;
+      }
+    }
+    if (stage.template !== undefined && (typeof stage.template !== "string" || stage.template === "")) {
+      errors.push(`${where}[${i}]: "template" must be a non-empty string`);
+      return null;
+    }
+    ladder.push({ ...stage });
+  }
+
+  // Failures below the first threshold still get a corrective message
+  const first = ladder[0];
+  if (first.identical !== undefined || first.turnFailures !== undefined) {
+    ladder.unshift({ action: "corrective" });
+  }
+  return ladder;
+}
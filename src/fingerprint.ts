@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import { PARAM_ALIASES } from "./constants.js";
+
+/** Tool arguments reduced to a comparable form: canonical keys, sorted, whitespace-collapsed */
+export type Fingerprint = Record<string, unknown>;
+
+// alias → canonical, built once from PARAM_ALIASES
+const CANONICAL: Record<string, string> = {};
+for (const [canonical, aliases] of Object.entries(PARAM_ALIASES)) {
+  for (const alias of aliases) CANONICAL[alias] = canonical;
+}
+
+export function fingerprintArgs(args: unknown): Fingerprint {
+  if (!args || typeof args !== "object" || Array.isArray(args)) return {};
+  const entries: [string, unknown][] = [];
+  for (const [key, value] of Object.entries(args)) {
+    if (value == null) continue;
+    entries.push([CANONICAL[key] ?? key, normalizeValue(value)]);
+  }
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return Object.fromEntries(entries);
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === "string") return normalizeText(value);
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      out[key] = normalizeValue((value as Record<string, unknown>)[key]);
+    }
+    return out;
+  }
+  return value;
+}
+
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Free-text params where a tweaked indent or typo is still the same call.
+// Everything else (paths, commands, patterns, ids) is compared exactly:
+// `UserProfileCard.tsx` and `UserProfileCart.tsx` are different files.
+const FUZZY_KEYS = new Set(["old_string", "new_string", "content", "text"]);
+// Below this length a one-character change is a different value, not noise
+const FUZZY_MIN_LENGTH = 40;
+
+/**
+ * Whether two fingerprints describe the same call: same keys, and equal
+ * values, except that long free-text strings need only be at least
+ * `threshold` similar.
+ */
+export function similarFingerprints(a: Fingerprint, b: Fingerprint, threshold: number): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+
+  for (const key of keys) {
+    if (!(key in b)) return false;
+    const va = a[key];
+    const vb = b[key];
+    if (typeof va === "string" && typeof vb === "string") {
+      if (va === vb) continue;
+      const fuzzy = FUZZY_KEYS.has(key) && Math.min(va.length, vb.length) >= FUZZY_MIN_LENGTH;
+      if (!fuzzy || similarity(va, vb) < threshold) return false;
+    } else if (JSON.stringify(va) !== JSON.stringify(vb)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Dice coefficient over character bigrams (1 = identical). Linear in the
+ * input size, so large `content` and `old_string` values stay cheap.
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2);
+    const count = bigrams.get(gram) ?? 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/** Short content hash for comparing tool results without keeping them around */
+export function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex").slice(0, 16);
+}
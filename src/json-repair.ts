@@ -0,0 +1,167 @@
+export type JsonRepair = "double-encoded" | "trailing-comma" | "single-quotes";
+
+export type ArgsParseResult =
+  | { ok: true; value: Record<string, unknown>; repairs: JsonRepair[] }
+  | { ok: false; error: string; position?: number; line?: number; column?: number; near?: string; truncated: boolean };
+
+/**
+ * Parse raw tool-call arguments. Objects pass through untouched; strings
+ * (what a host hands over when the model's JSON did not parse) are parsed,
+ * and repaired only where the repair cannot change what the model meant:
+ * trailing commas, single-quoted strings and double encoding. Truncated
+ * calls are never completed: an unterminated string or an unclosed bracket
+ * means the model stopped mid-call, and the last value or the fields after
+ * it (a cut-off `content`, `timeout: 12` of `120`) may be missing.
+ */
+export function parseToolArgs(raw: unknown): ArgsParseResult {
+  if (raw == null) return { ok: true, value: {}, repairs: [] };
+  if (typeof raw === "object" && !Array.isArray(raw)) {
+    return { ok: true, value: raw as Record<string, unknown>, repairs: [] };
+  }
+  if (typeof raw !== "string") {
+    return { ok: false, error: `Arguments must be a JSON object, got ${Array.isArray(raw) ? "an array" : typeof raw}`, truncated: false };
+  }
+
+  const repairs: JsonRepair[] = [];
+  const text = raw.trim();
+  // Hosts send "" for tools that take no arguments
+  if (text === "") return { ok: true, value: {}, repairs: [] };
+  let parsed = tryParse(text);
+
+  if (!parsed.ok) {
+    const fixed = repairText(text);
+    if (fixed.unclosed) return { ...describeError(text, parsed.error), truncated: true };
+    if (fixed.repairs.length > 0) {
+      const retry = tryParse(fixed.text);
+      if (retry.ok) {
+        parsed = retry;
+        repairs.push(...fixed.repairs);
+      }
+    }
+  }
+
+  if (!parsed.ok) return describeError(text, parsed.error);
+
+  // Arguments serialized twice arrive as a JSON string holding the object
+  if (typeof parsed.value === "string") {
+    const inner = tryParse(parsed.value.trim());
+    if (inner.ok && isObject(inner.value)) {
+      return { ok: true, value: inner.value, repairs: ["double-encoded", ...repairs] };
+    }
+  }
+
+  if (!isObject(parsed.value)) {
+    return { ok: false, error: "Arguments must be a JSON object", truncated: false };
+  }
+  return { ok: true, value: parsed.value, repairs };
+}
+
+export function formatParseError(result: Extract<ArgsParseResult, { ok: false }>): string {
+  let text = result.error;
+  if (result.line !== undefined) text += ` (line ${result.line}, column ${result.column})`;
+  if (result.near !== undefined) text += `, near: ${result.near}`;
+  if (result.truncated) text += ". The arguments appear to be truncated";
+  return text;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (err: any) {
+    return { ok: false, error: String(err?.message ?? err) };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * One pass over the text outside of double-quoted strings. Bails out (no
+ * repairs) on anything it cannot fix safely, so the original parse error is
+ * what gets reported. `unclosed` flags brackets left open at the end.
+ */
+function repairText(text: string): { text: string; repairs: JsonRepair[]; unclosed?: boolean } {
+  const repairs = new Set<JsonRepair>();
+  const stack: string[] = [];
+  let out = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"' || ch === "'") {
+      const end = findStringEnd(text, i);
+      if (end < 0) return { text, repairs: [] }; // unterminated — truncated, not repairable
+      const body = text.slice(i + 1, end);
+      if (ch === "'") {
+        repairs.add("single-quotes");
+        out += `"${requote(body)}"`;
+      } else {
+        out += text.slice(i, end + 1);
+      }
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === "{" || ch === "[") stack.push(ch === "{" ? "}" : "]");
+    if (ch === "}" || ch === "]") stack.pop();
+
+    if (ch === ",") {
+      const next = text.slice(i + 1).match(/^\s*([}\]])/);
+      if (next) {
+        repairs.add("trailing-comma");
+        i++;
+        continue;
+      }
+    }
+
+    out += ch;
+    i++;
+  }
+
+  if (stack.length > 0) return { text, repairs: [], unclosed: true };
+
+  return { text: out, repairs: [...repairs] };
+}
+
+/** Body of a single-quoted string as a double-quoted one: `\'` → `'`, `"` → `\"` */
+function requote(body: string): string {
+  let out = "";
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\") {
+      out += body[i + 1] === "'" ? "'" : body.slice(i, i + 2);
+      i++;
+    } else {
+      out += body[i] === '"' ? '\\"' : body[i];
+    }
+  }
+  return out;
+}
+
+function findStringEnd(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) return i;
+  }
+  return -1;
+}
+
+function describeError(text: string, error: string): Extract<ArgsParseResult, { ok: false }> {
+  const match = error.match(/at position (\d+)/);
+  const position = match ? Number(match[1]) : /end of JSON input/i.test(error) ? text.length : undefined;
+  // Running off the end (or an unclosed string) means the model stopped mid-call
+  const truncated = position !== undefined && position >= text.length - 1 && /unterminated|end of JSON|Expected/i.test(error);
+
+  if (position === undefined) return { ok: false, error, truncated: false };
+
+  const before = text.slice(0, position);
+  const line = before.split("\n").length;
+  const column = position - before.lastIndexOf("\n");
+  const near = JSON.stringify(text.slice(Math.max(0, position - 20), position + 20));
+  return { ok: false, error, position, line, column, near, truncated };
+}
@@ -1,44 +1,403 @@
-import { appendFile, mkdir } from "node:fs/promises";
-import { dirname, resolve } from "node:path";
+import { appendFile, mkdir, open, readdir, rename, rm, stat } from "node:fs/promises";
+import { appendFileSync, createReadStream, createWriteStream, mkdirSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { basename, dirname, join, resolve } from "node:path";
 import { homedir } from "node:os";
+import { DEFAULT_REDACTION, hashArgs, redactArgs, redactText, type CompiledRedaction } from "./redact.js";
 
 export interface LogEntry {
   timestamp: string;
+  sessionKey?: string;
+  /** Turn number within the session (see SessionRegistry.startTurn) */
+  turn?: number;
+  /** Hook that wrote the entry; after_tool_call entries repeat ones already logged */
+  hook?: "before_tool_call" | "tool_result_persist" | "after_tool_call";
+  /** Lets the writer drop the after_tool_call copy of a failure already logged */
+  toolCallId?: string;
+  provider?: string;
   modelId: string;
   toolName: string;
+  /** Redacted before writing — see redact.ts */
   args: unknown;
+  /** Hash of the unredacted args, so identical calls can be correlated */
+  argsHash?: string;
   errorType: string;
+  /** Error category from categorizeError — why the call failed */
+  category?: string;
   errorMessage: string;
+  /** Escalation stage chosen for this failure (1-based), when the guard acted on it */
+  stage?: number;
+  /** What the guard did: passed, corrective, loop-detected, hard-cap, … */
+  action?: string;
+  /** Guard profile applied to the call's model (see profiles.ts) */
+  profile?: string;
+  /** Text the guard injected (or, in shadow mode, would have injected) */
+  message?: string;
+  /** Set when the guard only observed — the model saw the original result */
+  shadow?: boolean;
+  /** Shadow mode: on the real result of a call the guard would have refused before it ran */
+  wouldHave?: "blocked";
 }
 
+export interface LogRotationConfig {
+  /** Roll over before the file grows past this size (default 10; 0 = never) */
+  maxSizeMB?: number;
+  /** Roll over once the file's first entry is this old (default 0 = never) */
+  maxAgeHours?: number;
+  /** Archives to keep (default 5) */
+  maxFiles?: number;
+  /** gzip archives (default true) */
+  compress?: boolean;
+}
+
+export interface LogWriterConfig {
+  /** Buffered entries are written at most this long after logging (default 1000; 0 = next tick) */
+  flushMs?: number;
+  /** Write as soon as this many entries are buffered (default 100) */
+  batchSize?: number;
+  /** Entries held while writes are slow or failing; beyond this new ones are dropped (default 10000) */
+  maxBuffered?: number;
+}
+
+export interface LoggerOptions {
+  redaction?: CompiledRedaction;
+  rotation?: LogRotationConfig;
+  writer?: LogWriterConfig;
+}
+
+export interface LoggerStats {
+  /** Entries appended to the log */
+  written: number;
+  /** Entries lost to a full buffer or a failed write */
+  dropped: number;
+  /** after_tool_call copies of failures another hook already logged */
+  deduplicated: number;
+  /** Entries waiting for the next flush */
+  buffered: number;
+}
+
+interface BufferedEntry {
+  line: string;
+  toolCallId?: string;
+  hook?: LogEntry["hook"];
+}
+
+// Tool call ids remembered for dedup; the two hooks fire moments apart
+const MAX_RECENT_IDS = 1000;
+
+// Loggers with entries that must reach disk before the process exits
+const openLoggers = new Set<ToolGuardLogger>();
+let exitHookInstalled = false;
+
 export class ToolGuardLogger {
   private readonly logPath: string;
+  private readonly redaction: CompiledRedaction;
+  private readonly maxBytes: number;
+  private readonly maxAgeMs: number;
+  private readonly maxFiles: number;
+  private readonly compress: boolean;
   private initialized = false;
+  private size = 0;
+  private startedAt = 0;
+  private readonly flushMs: number;
+  private readonly batchSize: number;
+  private readonly maxBuffered: number;
+  private buffer: BufferedEntry[] = [];
+  private timer: ReturnType<typeof setTimeout> | ReturnType<typeof setImmediate> | null = null;
+  private readonly recentIds = new Set<string>();
+  private readonly counters = { written: 0, dropped: 0, deduplicated: 0 };
+  // Batches and rollovers run one at a time, in flush order
+  private pending: Promise<void> = Promise.resolve();
 
-  constructor(logPath?: string) {
+  constructor(logPath?: string, options: LoggerOptions = {}) {
     this.logPath = expandPath(logPath ?? "~/.openclaw/tool-guard.log");
+    this.redaction = options.redaction ?? DEFAULT_REDACTION;
+    const rotation = options.rotation ?? {};
+    this.maxBytes = Math.max(0, rotation.maxSizeMB ?? 10) * 1024 * 1024;
+    this.maxAgeMs = Math.max(0, rotation.maxAgeHours ?? 0) * 60 * 60 * 1000;
+    this.maxFiles = Math.max(0, Math.floor(rotation.maxFiles ?? 5));
+    this.compress = rotation.compress ?? true;
+    const writer = options.writer ?? {};
+    this.flushMs = Math.max(0, writer.flushMs ?? 1000);
+    this.batchSize = Math.max(1, writer.batchSize ?? 100);
+    this.maxBuffered = Math.max(1, writer.maxBuffered ?? 10_000);
   }
 
-  async log(entry: Omit<LogEntry, "timestamp">): Promise<void> {
+  /**
+   * Queue an entry; it is written with the next batch. The after_tool_call
+   * copy of a failure that another hook logged for the same toolCallId is
+   * dropped, and a richer entry replaces one still waiting in the buffer.
+   */
+  log(entry: Omit<LogEntry, "timestamp">): void {
+    const id = entry.toolCallId || undefined;
+    if (id && entry.hook === "after_tool_call" && this.recentIds.has(id)) {
+      this.counters.deduplicated++;
+      return;
+    }
+    if (id && entry.hook !== "after_tool_call") {
+      const copy = this.buffer.findIndex((b) => b.toolCallId === id && b.hook === "after_tool_call");
+      if (copy >= 0) {
+        this.buffer.splice(copy, 1);
+        this.counters.deduplicated++;
+      }
+    }
+    if (this.buffer.length >= this.maxBuffered) {
+      this.counters.dropped++;
+      return;
+    }
+
     const fullEntry: LogEntry = {
       timestamp: new Date().toISOString(),
       ...entry,
+      args: redactArgs(entry.args, this.redaction),
+      argsHash: entry.argsHash ?? hashArgs(entry.args),
+      errorMessage: redactText(entry.errorMessage, this.redaction),
+      ...(entry.message !== undefined && { message: redactText(entry.message, this.redaction) }),
     };
+    this.buffer.push({ line: JSON.stringify(fullEntry) + "\n", toolCallId: id, hook: entry.hook });
+    if (id) this.remember(id);
+
+    openLoggers.add(this);
+    installExitHook();
+    if (this.buffer.length >= this.batchSize) void this.flush();
+    else this.schedule();
+  }
 
+  /** Write everything buffered so far; resolves once it and all earlier batches are on disk */
+  flush(): Promise<void> {
+    this.cancelTimer();
+    const batch = this.buffer.splice(0);
+    if (batch.length > 0) {
+      this.pending = this.pending.then(async () => {
+        try {
+          await this.append(batch.map((b) => b.line));
+          this.counters.written += batch.length;
+        } catch {
+          // Logging failures should not break tool execution
+          this.counters.dropped += batch.length;
+        }
+      });
+    }
+    return this.pending;
+  }
+
+  /** Flush and stop watching for process exit — for service shutdown */
+  async close(): Promise<void> {
+    await this.flush();
+    openLoggers.delete(this);
+  }
+
+  /**
+   * Last-chance synchronous write from the process exit handler, where
+   * async writes never complete. Skips rotation.
+   */
+  flushSync(): void {
+    this.cancelTimer();
+    const batch = this.buffer.splice(0);
+    if (batch.length === 0) return;
     try {
-      if (!this.initialized) {
-        await mkdir(dirname(this.logPath), { recursive: true });
-        this.initialized = true;
-      }
-      await appendFile(this.logPath, JSON.stringify(fullEntry) + "\n", "utf-8");
+      mkdirSync(dirname(this.logPath), { recursive: true });
+      appendFileSync(this.logPath, batch.map((b) => b.line).join(""), "utf-8");
+      this.counters.written += batch.length;
     } catch {
-      // Logging failures should not break tool execution
+      this.counters.dropped += batch.length;
     }
   }
 
+  getStats(): LoggerStats {
+    return { ...this.counters, buffered: this.buffer.length };
+  }
+
   getLogPath(): string {
     return this.logPath;
   }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const fire = () => {
+      this.timer = null;
+      void this.flush();
+    };
+    const timer = this.flushMs === 0 ? setImmediate(fire) : setTimeout(fire, this.flushMs);
+    timer.unref?.();
+    this.timer = timer;
+  }
+
+  private cancelTimer(): void {
+    if (!this.timer) return;
+    if (this.flushMs === 0) clearImmediate(this.timer as ReturnType<typeof setImmediate>);
+    else clearTimeout(this.timer as ReturnType<typeof setTimeout>);
+    this.timer = null;
+  }
+
+  private remember(id: string): void {
+    this.recentIds.delete(id);
+    this.recentIds.add(id);
+    if (this.recentIds.size > MAX_RECENT_IDS) {
+      this.recentIds.delete(this.recentIds.values().next().value!);
+    }
+  }
+
+  /** Append lines in order, rolling over between lines whenever the next one would not fit */
+  private async append(lines: string[]): Promise<void> {
+    if (!this.initialized) {
+      await mkdir(dirname(this.logPath), { recursive: true });
+      const stats = await stat(this.logPath).catch(() => null);
+      this.size = stats?.size ?? 0;
+      this.startedAt = stats ? ((await firstTimestamp(this.logPath)) ?? stats.mtimeMs) : Date.now();
+      this.initialized = true;
+    }
+
+    let chunk = "";
+    let chunkBytes = 0;
+    for (const line of lines) {
+      const bytes = Buffer.byteLength(line);
+      const used = this.size + chunkBytes;
+      const tooBig = this.maxBytes > 0 && used + bytes > this.maxBytes;
+      const tooOld = this.maxAgeMs > 0 && Date.now() - this.startedAt >= this.maxAgeMs;
+      if (used > 0 && (tooBig || tooOld)) {
+        if (chunk) await this.write(chunk, chunkBytes);
+        chunk = "";
+        chunkBytes = 0;
+        await this.rotate();
+      }
+      chunk += line;
+      chunkBytes += bytes;
+    }
+    if (chunk) await this.write(chunk, chunkBytes);
+  }
+
+  private async write(text: string, bytes: number): Promise<void> {
+    await appendFile(this.logPath, text, "utf-8");
+    this.size += bytes;
+  }
+
+  /**
+   * Move the live file aside, shift the archives up by one and compress the
+   * old file into `<log>.1.gz`. The rename comes first and is atomic, so the
+   * next append always starts a fresh file.
+   */
+  private async rotate(): Promise<void> {
+    const staging = `${this.logPath}.rotating`;
+    try {
+      await rename(this.logPath, staging);
+    } catch {
+      return; // Someone else moved or removed it; keep appending
+    }
+    this.size = 0;
+    this.startedAt = Date.now();
+
+    try {
+      const ext = this.compress ? ".gz" : "";
+      const archive = (n: number) => `${this.logPath}.${n}${ext}`;
+      if (this.maxFiles === 0) {
+        await rm(staging, { force: true });
+        return;
+      }
+      await rm(archive(this.maxFiles), { force: true });
+      for (let n = this.maxFiles - 1; n >= 1; n--) {
+        await rename(archive(n), archive(n + 1)).catch(() => {});
+      }
+      if (this.compress) {
+        await pipeline(createReadStream(staging), createGzip(), createWriteStream(`${archive(1)}.tmp`));
+        await rename(`${archive(1)}.tmp`, archive(1));
+        await rm(staging, { force: true });
+      } else {
+        await rename(staging, archive(1));
+      }
+    } catch {
+      // A failed archive loses old entries, never new ones
+    }
+  }
+}
+
+/**
+ * The live log and its archives, oldest first: `<log>.N.gz` … `<log>.1.gz`,
+ * then `<log>`. Uncompressed archives (`compress: false`) are included.
+ */
+export async function listLogFiles(logPath: string): Promise<string[]> {
+  const fullPath = expandPath(logPath);
+  const dir = dirname(fullPath);
+  const name = basename(fullPath);
+  const pattern = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\.(\\d+)(\\.gz)?$`);
+
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const archives = names
+    .map((n) => ({ n, match: n.match(pattern) }))
+    .filter((a): a is { n: string; match: RegExpMatchArray } => a.match !== null)
+    .sort((a, b) => Number(b.match[1]) - Number(a.match[1]))
+    .map((a) => join(dir, a.n));
+  return names.includes(name) ? [...archives, fullPath] : archives;
+}
+
+/**
+ * Entries from the live log and its archives in time order. Unparseable
+ * lines (a crash mid-write) are skipped. With `since`, archives rotated out
+ * before then are not opened.
+ */
+export async function* iterateLogEntries(
+  logPath: string,
+  options: { since?: Date } = {},
+): AsyncGenerator<LogEntry> {
+  const since = options.since?.getTime();
+  for (const file of await listLogFiles(logPath)) {
+    if (since !== undefined) {
+      const stats = await stat(file).catch(() => null);
+      if (!stats || stats.mtimeMs < since) continue;
+    }
+
+    const stream = createReadStream(file);
+    const lines = createInterface({ input: file.endsWith(".gz") ? stream.pipe(createGunzip()) : stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        yield entry;
+      }
+    } catch {
+      // Truncated archive — keep what was read
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+}
+
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.on("exit", () => {
+    for (const logger of openLoggers) logger.flushSync();
+  });
+}
+
+async function firstTimestamp(path: string): Promise<number | null> {
+  const handle = await open(path, "r").catch(() => null);
+  if (!handle) return null;
+  try {
+    const buffer = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const firstLine = buffer.subarray(0, bytesRead).toString("utf-8").split("\n")[0];
+    const ts = Date.parse(JSON.parse(firstLine).timestamp);
+    return Number.isNaN(ts) ? null : ts;
+  } catch {
+    return null;
+  } finally {
+    await handle.close();
+  }
 }
 
 function expandPath(p: string): string {
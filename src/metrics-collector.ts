@@ -1,4 +1,5 @@
-import type { MetricsDatabase, UsageEvent } from "./database.js";
+import type { MetricsDatabase, UsageEvent, ToolFailureEvent, ToolCallEvent } from "./database.js";
+import { DEFAULT_REDACTION, hashArgs, redactArgs, redactText, type CompiledRedaction } from "./redact.js";
 
 export interface DiagnosticEvent {
   type: string;
@@ -24,10 +25,14 @@ export interface CollectorConfig {
   gatewayId: string;
   bufferMs?: number;
   bufferSize?: number;
+  /** Applied to failure args and error messages before they are stored */
+  redaction?: CompiledRedaction;
 }
 
 export class MetricsCollector {
   private buffer: UsageEvent[] = [];
+  private failureBuffer: ToolFailureEvent[] = [];
+  private callBuffer: ToolCallEvent[] = [];
   private timer: ReturnType<typeof setInterval> | null = null;
   private readonly bufferMs: number;
   private readonly bufferSize: number;
@@ -77,12 +82,41 @@ export class MetricsCollector {
     }
   }
 
+  /** Buffer one tool failure; args and error text are redacted here, before anything is stored */
+  recordToolFailure(event: Omit<ToolFailureEvent, "ts" | "gatewayId">): void {
+    const redaction = this.config.redaction ?? DEFAULT_REDACTION;
+    this.failureBuffer.push({
+      ts: new Date().toISOString(),
+      gatewayId: this.config.gatewayId,
+      ...event,
+      args: event.args === undefined ? undefined : redactArgs(event.args, redaction),
+      argsHash: event.argsHash ?? (event.args === undefined ? undefined : hashArgs(event.args)),
+      errorMessage: event.errorMessage === undefined ? undefined : redactText(event.errorMessage, redaction),
+    });
+
+    if (this.failureBuffer.length >= this.bufferSize) {
+      this.flushSync();
+    }
+  }
+
+  /** Buffer one completed tool call (success or failure) */
+  recordToolCall(event: Omit<ToolCallEvent, "ts" | "gatewayId">): void {
+    this.callBuffer.push({
+      ts: new Date().toISOString(),
+      gatewayId: this.config.gatewayId,
+      ...event,
+    });
+
+    if (this.callBuffer.length >= this.bufferSize) {
+      this.flushSync();
+    }
+  }
+
   async flush(): Promise<void> {
     this.flushSync();
   }
 
   private flushSync(): void {
-    if (this.buffer.length === 0) return;
     const batch = this.buffer.splice(0);
     for (const event of batch) {
       try {
@@ -91,6 +125,24 @@ export class MetricsCollector {
         // Don't let DB errors crash the gateway
       }
     }
+
+    const failures = this.failureBuffer.splice(0);
+    for (const event of failures) {
+      try {
+        this.db.recordToolFailure(event);
+      } catch {
+        // Don't let DB errors crash the gateway
+      }
+    }
+
+    const calls = this.callBuffer.splice(0);
+    for (const event of calls) {
+      try {
+        this.db.recordToolCall(event);
+      } catch {
+        // Don't let DB errors crash the gateway
+      }
+    }
   }
 
   stop(): void {
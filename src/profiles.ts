@@ -0,0 +1,113 @@
+import type { Verbosity } from "./classifier.js";
+import { compileEscalation, type CompiledEscalation, type EscalationConfig, type LadderDefaults } from "./escalation.js";
+
+/** One `profiles` entry as written in plugin config */
+export interface ProfileConfig extends LadderDefaults {
+  name?: string;
+  /** Glob matched against the active provider (`*` and `?`, case-insensitive) */
+  provider?: string;
+  /** Glob matched against the active model id */
+  model?: string;
+  escalation?: EscalationConfig;
+  verbosity?: Verbosity;
+}
+
+/** The plugin config fields profiles read from */
+export interface ProfilesConfig extends LadderDefaults {
+  profiles?: ProfileConfig[];
+  escalation?: EscalationConfig;
+  verbosity?: Verbosity;
+}
+
+export interface GuardProfile {
+  name: string;
+  escalation: CompiledEscalation;
+  verbosity: Verbosity;
+}
+
+export interface CompiledProfiles {
+  /** Checked in config order; the first match wins */
+  matchers: { provider?: RegExp; model?: RegExp; profile: GuardProfile }[];
+  /** Global settings, used when no profile matches */
+  fallback: GuardProfile;
+  /** Why each skipped profile entry was rejected */
+  errors: string[];
+}
+
+const VERBOSITY: Verbosity[] = ["full", "brief", "minimal"];
+
+/**
+ * Validate and compile the `profiles` config section. A profile inherits any
+ * limit it does not set from the global config, so `{ model: "minimax*",
+ * maxFailuresPerTurn: 3 }` only tightens the cap.
+ */
+export function compileProfiles(config: ProfilesConfig = {}): CompiledProfiles {
+  const errors: string[] = [];
+
+  const globalVerbosity = checkVerbosity("verbosity", config.verbosity, errors) ?? "full";
+  const globalEscalation = compileEscalation(config.escalation, config);
+  errors.push(...globalEscalation.errors.map((e) => `escalation.${e}`));
+
+  const compiled: CompiledProfiles = {
+    matchers: [],
+    fallback: { name: "default", escalation: globalEscalation, verbosity: globalVerbosity },
+    errors,
+  };
+
+  for (const [i, entry] of (Array.isArray(config.profiles) ? config.profiles : []).entries()) {
+    const where = `profiles[${i}]`;
+    if (typeof entry?.provider !== "string" && typeof entry?.model !== "string") {
+      errors.push(`${where}: needs a "provider" or "model" glob`);
+      continue;
+    }
+
+    const limits: LadderDefaults = {
+      maxIdenticalFailures: entry.maxIdenticalFailures ?? config.maxIdenticalFailures,
+      maxFailuresPerTurn: entry.maxFailuresPerTurn ?? config.maxFailuresPerTurn,
+      blockAllToolsAfterCap: entry.blockAllToolsAfterCap ?? config.blockAllToolsAfterCap,
+    };
+    // Only inherit the global ladder when the profile sets no limits of its own
+    const ownLimits = ["maxIdenticalFailures", "maxFailuresPerTurn", "blockAllToolsAfterCap"].some(
+      (key) => (entry as Record<string, unknown>)[key] !== undefined,
+    );
+    const escalation = compileEscalation(entry.escalation ?? (ownLimits ? undefined : config.escalation), limits);
+    errors.push(...escalation.errors.map((e) => `${where}.escalation.${e}`));
+
+    compiled.matchers.push({
+      provider: typeof entry.provider === "string" ? globToRegExp(entry.provider) : undefined,
+      model: typeof entry.model === "string" ? globToRegExp(entry.model) : undefined,
+      profile: {
+        name: entry.name ?? `${entry.provider ?? "*"}/${entry.model ?? "*"}`,
+        escalation,
+        verbosity: checkVerbosity(`${where}.verbosity`, entry.verbosity, errors) ?? globalVerbosity,
+      },
+    });
+  }
+
+  return compiled;
+}
+
+/** Profile for the model making a call: the first matching entry, else the global settings */
+export function selectProfile(compiled: CompiledProfiles, provider?: string, modelId?: string): GuardProfile {
+  for (const { provider: p, model: m, profile } of compiled.matchers) {
+    if (p && !p.test(provider ?? "")) continue;
+    if (m && !m.test(modelId ?? "")) continue;
+    return profile;
+  }
+  return compiled.fallback;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function checkVerbosity(where: string, value: unknown, errors: string[]): Verbosity | undefined {
+  if (value === undefined) return undefined;
+  if (VERBOSITY.includes(value as Verbosity)) return value as Verbosity;
+  errors.push(`${where}: must be one of ${VERBOSITY.join(", ")}`);
+  return undefined;
+}
@@ -0,0 +1,252 @@
+import { iterateLogEntries, type LogEntry } from "./logger.js";
+import { ToolGuardTracker, type TrackerConfig } from "./tracker.js";
+import { CATEGORY_POLICIES, categorizeError, classifyError } from "./classifier.js";
+import { compileRules, type RulesConfig } from "./rules.js";
+import { compileProfiles, selectProfile, type ProfilesConfig } from "./profiles.js";
+import { selectLadder } from "./escalation.js";
+
+/** The plugin config fields that change what the guard does with a failure */
+export interface ReplayConfig extends TrackerConfig, ProfilesConfig {
+  rules?: RulesConfig;
+}
+
+export interface ReplayOptions {
+  since?: Date;
+  until?: Date;
+  /** Entries without a logged turn start a new turn after this much silence (default 5 min) */
+  turnGapMs?: number;
+}
+
+export interface ReplayOutcome {
+  /** Failures replayed */
+  failures: number;
+  /** Failures the guard acted on (everything but `passed`) */
+  interventions: number;
+  byAction: Record<string, number>;
+  loopsBroken: number;
+  /** Turns that reached a blocking stage (block-tools or abort-turn) */
+  turnsCapped: number;
+}
+
+export interface ReplayDifference {
+  timestamp: string;
+  sessionKey: string;
+  turn: number;
+  toolName: string;
+  errorMessage: string;
+  current: string;
+  candidate: string;
+}
+
+export interface ReplayReport {
+  entries: number;
+  sessions: number;
+  turns: number;
+  current: ReplayOutcome;
+  candidate: ReplayOutcome;
+  differences: ReplayDifference[];
+}
+
+interface ReplayTurn {
+  sessionKey: string;
+  turn: number;
+  entries: LogEntry[];
+}
+
+const FAILURE_TYPES = new Set(["retryable", "non-retryable"]);
+// Logs written before entries carried a hook: the after_tool_call copy of a
+// failure lands within moments of the original
+const LEGACY_DUPLICATE_MS = 2000;
+
+/** Entries from an attribution log and its rotated archives, oldest first */
+export async function readLogEntries(logPath: string, options: { since?: Date } = {}): Promise<LogEntry[]> {
+  const entries: LogEntry[] = [];
+  for await (const entry of iterateLogEntries(logPath, options)) entries.push(entry);
+  return entries;
+}
+
+/** Replay a log file and its archives; see replayEntries */
+export async function replayLog(
+  logPath: string,
+  candidate: ReplayConfig,
+  current: ReplayConfig,
+  options: ReplayOptions = {},
+): Promise<ReplayReport> {
+  return replayEntries(await readLogEntries(logPath, { since: options.since }), candidate, current, options);
+}
+
+/**
+ * Feed logged failures through the classifier and tracker under two configs
+ * and report what each would have done. Turns are rebuilt from the logged
+ * session and turn; the log holds failures only, so cycle detection and
+ * repeated-success notes are not replayed.
+ */
+export function replayEntries(
+  entries: LogEntry[],
+  candidate: ReplayConfig,
+  current: ReplayConfig,
+  options: ReplayOptions = {},
+): ReplayReport {
+  const turns = groupTurns(selectFailures(entries, options), options.turnGapMs ?? 5 * 60 * 1000);
+
+  const currentRun = simulate(turns, current);
+  const candidateRun = simulate(turns, candidate);
+
+  const differences: ReplayDifference[] = [];
+  let i = 0;
+  for (const turn of turns) {
+    for (const entry of turn.entries) {
+      if (currentRun.actions[i] !== candidateRun.actions[i]) {
+        differences.push({
+          timestamp: entry.timestamp,
+          sessionKey: turn.sessionKey,
+          turn: turn.turn,
+          toolName: entry.toolName,
+          errorMessage: entry.errorMessage,
+          current: currentRun.actions[i],
+          candidate: candidateRun.actions[i],
+        });
+      }
+      i++;
+    }
+  }
+
+  return {
+    entries: i,
+    sessions: new Set(turns.map((t) => t.sessionKey)).size,
+    turns: turns.length,
+    current: currentRun.outcome,
+    candidate: candidateRun.outcome,
+    differences,
+  };
+}
+
+/** Human-readable summary for the CLI */
+export function formatReplayReport(report: ReplayReport, maxDifferences = 20): string {
+  const row = (label: string, current: number, candidate: number) => {
+    const delta = candidate - current;
+    return `  ${label.padEnd(22)}${String(current).padStart(8)}${String(candidate).padStart(11)}${(delta > 0 ? `+${delta}` : String(delta)).padStart(8)}`;
+  };
+  const actions = [...new Set([...Object.keys(report.current.byAction), ...Object.keys(report.candidate.byAction)])].sort();
+
+  const lines = [
+    `Replayed ${report.entries} failures in ${report.turns} turns across ${report.sessions} sessions`,
+    "",
+    `  ${"".padEnd(22)}${"current".padStart(8)}${"candidate".padStart(11)}${"delta".padStart(8)}`,
+    row("interventions", report.current.interventions, report.candidate.interventions),
+    row("loops broken", report.current.loopsBroken, report.candidate.loopsBroken),
+    row("turns capped", report.current.turnsCapped, report.candidate.turnsCapped),
+    ...actions.map((a) => row(`  ${a}`, report.current.byAction[a] ?? 0, report.candidate.byAction[a] ?? 0)),
+    "",
+  ];
+
+  if (report.differences.length === 0) {
+    lines.push("No differences.");
+  } else {
+    lines.push(`${report.differences.length} failures handled differently:`);
+    for (const d of report.differences.slice(0, maxDifferences)) {
+      lines.push(`  ${d.timestamp}  ${d.sessionKey}#${d.turn}  ${d.toolName}: ${d.current} → ${d.candidate}`);
+    }
+    if (report.differences.length > maxDifferences) {
+      lines.push(`  … ${report.differences.length - maxDifferences} more (use --json for all)`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** "24h", "7d", "30m" → milliseconds; null when unparseable */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(m|h|d|w)$/i);
+  if (!match) return null;
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[match[2].toLowerCase() as "m" | "h" | "d" | "w"];
+  return Number(match[1]) * unit;
+}
+
+function selectFailures(entries: LogEntry[], options: ReplayOptions): LogEntry[] {
+  const since = options.since?.getTime() ?? -Infinity;
+  const until = options.until?.getTime() ?? Infinity;
+  return entries
+    // A shadow-refused call was already counted by its before_tool_call entry
+    .filter((e) => FAILURE_TYPES.has(e.errorType) && e.hook !== "after_tool_call" && !e.wouldHave)
+    .filter((e) => {
+      const ts = Date.parse(e.timestamp);
+      return ts >= since && ts <= until;
+    })
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+function groupTurns(entries: LogEntry[], turnGapMs: number): ReplayTurn[] {
+  const turns: ReplayTurn[] = [];
+  const open = new Map<string, { turn: ReplayTurn; lastTs: number }>();
+
+  for (const entry of entries) {
+    const sessionKey = entry.sessionKey ?? `${entry.provider ?? "unknown"}/${entry.modelId}`;
+    const ts = Date.parse(entry.timestamp);
+    const prev = open.get(sessionKey);
+
+    const sameTurn = prev && (entry.turn !== undefined ? prev.turn.turn === entry.turn : ts - prev.lastTs <= turnGapMs);
+    if (prev && sameTurn) {
+      if (entry.hook === undefined && isLegacyDuplicate(prev.turn.entries, entry, ts)) continue;
+      prev.turn.entries.push(entry);
+      prev.lastTs = ts;
+      continue;
+    }
+
+    const turn: ReplayTurn = { sessionKey, turn: entry.turn ?? (prev ? prev.turn.turn + 1 : 1), entries: [entry] };
+    turns.push(turn);
+    open.set(sessionKey, { turn, lastTs: ts });
+  }
+  return turns;
+}
+
+function isLegacyDuplicate(entries: LogEntry[], entry: LogEntry, ts: number): boolean {
+  const last = entries[entries.length - 1];
+  return (
+    last.toolName === entry.toolName &&
+    last.errorMessage === entry.errorMessage &&
+    ts - Date.parse(last.timestamp) <= LEGACY_DUPLICATE_MS
+  );
+}
+
+function simulate(turns: ReplayTurn[], config: ReplayConfig): { actions: string[]; outcome: ReplayOutcome } {
+  const rules = compileRules(config.rules);
+  const profiles = compileProfiles(config);
+  const actions: string[] = [];
+  const outcome: ReplayOutcome = { failures: 0, interventions: 0, byAction: {}, loopsBroken: 0, turnsCapped: 0 };
+
+  for (const turn of turns) {
+    const tracker = new ToolGuardTracker(config);
+    for (const entry of turn.entries) {
+      const action = decide(tracker, entry, rules, profiles);
+      actions.push(action);
+      outcome.failures++;
+      outcome.byAction[action] = (outcome.byAction[action] ?? 0) + 1;
+      if (action !== "passed") outcome.interventions++;
+      if (action === "loop-detected") outcome.loopsBroken++;
+    }
+    if (tracker.isCapped()) outcome.turnsCapped++;
+  }
+  return { actions, outcome };
+}
+
+function decide(
+  tracker: ToolGuardTracker,
+  entry: LogEntry,
+  rules: ReturnType<typeof compileRules>,
+  profiles: ReturnType<typeof compileProfiles>,
+): string {
+  if (tracker.checkBlocked(entry.toolName)) return "blocked";
+  if (classifyError(entry.errorMessage, rules, entry.toolName) === "retryable") return "passed";
+
+  const category = categorizeError(entry.errorMessage, rules, entry.toolName);
+  const profile = selectProfile(profiles, entry.provider, entry.modelId);
+  const result = tracker.recordFailure(
+    entry.toolName,
+    entry.args,
+    entry.errorMessage,
+    entry.modelId,
+    CATEGORY_POLICIES[category].weight,
+    selectLadder(profile.escalation, entry.toolName, entry.modelId),
+  );
+  return result.action === "continue" ? "corrective" : result.action;
+}
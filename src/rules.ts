@@ -0,0 +1,97 @@
+import { CATEGORY_POLICIES, type ErrorCategory } from "./classifier.js";
+
+export type RuleAction = "correct" | "pass";
+
+/** One `rules.patterns` entry as written in plugin config */
+export interface RuleConfig {
+  pattern: string;
+  flags?: string;
+  category: string;
+  action?: string;
+  tools?: string[];
+}
+
+export interface RulesConfig {
+  patterns?: RuleConfig[];
+  templates?: Record<string, string>;
+}
+
+export interface CompiledRule {
+  pattern: RegExp;
+  category: ErrorCategory;
+  action: RuleAction;
+  tools?: string[];
+}
+
+export interface CompiledRules {
+  patterns: CompiledRule[];
+  /** Per-tool corrective templates, keyed by tool name */
+  templates: Record<string, string>;
+  /** Problems found while compiling — the offending entries were skipped */
+  errors: string[];
+}
+
+const ACTIONS: RuleAction[] = ["correct", "pass"];
+
+/**
+ * Validate and compile the `rules` config section. Invalid entries are
+ * dropped (and reported in `errors`) so the built-in rules still apply.
+ * The other config compilers (escalation, profiles, redaction) follow the
+ * same contract: they never throw, and the caller warns about each error.
+ */
+export function compileRules(config: RulesConfig | undefined): CompiledRules {
+  const compiled: CompiledRules = { patterns: [], templates: {}, errors: [] };
+  if (!config || typeof config !== "object") return compiled;
+
+  for (const [i, rule] of (Array.isArray(config.patterns) ? config.patterns : []).entries()) {
+    if (typeof rule?.pattern !== "string" || rule.pattern === "") {
+      compiled.errors.push(`patterns[${i}]: "pattern" must be a non-empty string`);
+      continue;
+    }
+    if (!(rule.category in CATEGORY_POLICIES)) {
+      compiled.errors.push(`patterns[${i}]: unknown category "${rule.category}"`);
+      continue;
+    }
+    const action = rule.action ?? (CATEGORY_POLICIES[rule.category as ErrorCategory].retryable ? "pass" : "correct");
+    if (!ACTIONS.includes(action as RuleAction)) {
+      compiled.errors.push(`patterns[${i}]: action must be one of ${ACTIONS.join(", ")}`);
+      continue;
+    }
+
+    let pattern: RegExp;
+    try {
+      // Stateful flags would make .test() skip matches between calls
+      pattern = new RegExp(rule.pattern, (rule.flags ?? "i").replace(/[gy]/g, ""));
+    } catch (err: any) {
+      compiled.errors.push(`patterns[${i}]: invalid regex: ${err?.message ?? err}`);
+      continue;
+    }
+
+    compiled.patterns.push({
+      pattern,
+      category: rule.category as ErrorCategory,
+      action: action as RuleAction,
+      tools: Array.isArray(rule.tools) ? rule.tools : undefined,
+    });
+  }
+
+  for (const [tool, template] of Object.entries(config.templates ?? {})) {
+    if (typeof template !== "string" || template === "") {
+      compiled.errors.push(`templates.${tool}: must be a non-empty string`);
+      continue;
+    }
+    compiled.templates[tool] = template;
+  }
+
+  return compiled;
+}
+
+/** First configured rule matching this error (and tool, if the rule is scoped) */
+export function matchRule(rules: CompiledRules | undefined, errorMessage: string, toolName?: string): CompiledRule | null {
+  if (!rules) return null;
+  for (const rule of rules.patterns) {
+    if (rule.tools && (!toolName || !rule.tools.includes(toolName))) continue;
+    if (rule.pattern.test(errorMessage)) return rule;
+  }
+  return null;
+}
@@ -0,0 +1,118 @@
+import { TOOL_SCHEMAS, type ToolSchema, type ParamSpec } from "./constants.js";
+
+/** A tool definition as the host exposes it — name plus JSON Schema parameters */
+export interface ToolDefinition {
+  name: string;
+  parameters?: unknown;
+  inputSchema?: unknown;
+}
+
+/**
+ * Schema lookup for every tool the guard knows about. Seeded with the
+ * hand-written TOOL_SCHEMAS; host tool definitions fill in everything else.
+ * Built-ins always win — their usage strings are curated and the host's core
+ * tool schemas mark aliased params as optional, which would hide real misses.
+ */
+export class SchemaRegistry {
+  private schemas: Map<string, ToolSchema> = new Map(Object.entries(TOOL_SCHEMAS));
+
+  get(toolName: string): ToolSchema | undefined {
+    return this.schemas.get(toolName);
+  }
+
+  has(toolName: string): boolean {
+    return this.schemas.has(toolName);
+  }
+
+  names(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  /** Register one tool from its JSON Schema; returns false if skipped */
+  register(toolName: string, jsonSchema: unknown): boolean {
+    if (!toolName || toolName in TOOL_SCHEMAS) return false;
+    const schema = schemaFromJson(toolName, jsonSchema);
+    if (!schema) return false;
+    this.schemas.set(toolName, schema);
+    return true;
+  }
+
+  /** Register a batch of host definitions; returns how many were accepted */
+  load(definitions: unknown): number {
+    if (!Array.isArray(definitions)) return 0;
+    let count = 0;
+    for (const def of definitions as ToolDefinition[]) {
+      if (typeof def?.name !== "string") continue;
+      if (this.register(def.name, def.parameters ?? def.inputSchema)) count++;
+    }
+    return count;
+  }
+}
+
+/** Derive required params, types, enums and a usage example from a JSON Schema */
+export function schemaFromJson(toolName: string, jsonSchema: unknown): ToolSchema | null {
+  const json = jsonSchema as { properties?: Record<string, any>; required?: unknown } | null;
+  if (!json || typeof json !== "object") return null;
+
+  const properties = json.properties ?? {};
+  const required = Array.isArray(json.required)
+    ? json.required.filter((r): r is string => typeof r === "string")
+    : [];
+
+  const params: Record<string, ParamSpec> = {};
+  for (const [name, prop] of Object.entries(properties)) {
+    params[name] = paramSpec(prop);
+  }
+
+  return { required, usage: buildUsage(toolName, required, params), params };
+}
+
+function paramSpec(prop: any): ParamSpec {
+  if (!prop || typeof prop !== "object") return {};
+
+  if (Array.isArray(prop.enum)) {
+    return { type: prop.type, enum: prop.enum };
+  }
+  if ("const" in prop) {
+    return { type: prop.type, enum: [prop.const] };
+  }
+
+  // TypeBox emits string-literal unions as anyOf: [{ const }, { const }]
+  const variants = prop.anyOf ?? prop.oneOf;
+  if (Array.isArray(variants)) {
+    if (variants.every((v: any) => v && "const" in v)) {
+      return { enum: variants.map((v: any) => v.const) };
+    }
+    const types = variants.map((v: any) => v?.type).filter((t: unknown) => typeof t === "string");
+    return types.length > 0 ? { type: [...new Set(types)].join("|") } : {};
+  }
+
+  if (Array.isArray(prop.type)) return { type: prop.type.join("|") };
+  return typeof prop.type === "string" ? { type: prop.type } : {};
+}
+
+function buildUsage(toolName: string, required: string[], params: Record<string, ParamSpec>): string {
+  // Show required params; if none are required, show up to two optional ones
+  const shown = required.length > 0 ? required : Object.keys(params).slice(0, 2);
+  const args = shown.map((name) => `${name}: ${placeholder(name, params[name] ?? {})}`);
+  return args.length > 0 ? `${toolName}({ ${args.join(", ")} })` : `${toolName}({})`;
+}
+
+function placeholder(name: string, spec: ParamSpec): string {
+  if (spec.enum && spec.enum.length > 0) {
+    return spec.enum.map((v) => JSON.stringify(v)).join(" | ");
+  }
+  switch (spec.type?.split("|")[0]) {
+    case "number":
+    case "integer":
+      return "0";
+    case "boolean":
+      return "true";
+    case "array":
+      return "[]";
+    case "object":
+      return "{}";
+    default:
+      return `"${name}"`;
+  }
+}
@@ -0,0 +1,211 @@
+import { ToolGuardTracker, type TrackerConfig } from "./tracker.js";
+import { inferModelFromToolCallId } from "./classifier.js";
+import { CycleDetector, type CycleConfig } from "./cycles.js";
+
+export interface SessionRegistryConfig extends TrackerConfig, CycleConfig {
+  /** Drop a session's state after this long without activity (default 30 min) */
+  sessionIdleMs?: number;
+}
+
+/** enforce = intervene, shadow = only log what would have happened, off = stand aside */
+export type GuardMode = "enforce" | "shadow" | "off";
+
+export interface SessionState {
+  key: string;
+  tracker: ToolGuardTracker;
+  /** Recent call history for alternating-pattern detection */
+  cycles: CycleDetector;
+  lastSeen: number;
+  /** Turns started in this session, so log entries can be grouped per turn */
+  turn: number;
+  /** Active provider/model, from agent-start context or model.usage events */
+  provider?: string;
+  model?: string;
+  /** Tools that received a corrective message and have not been called since */
+  corrected: Set<string>;
+  /**
+   * Params of the latest call per toolCallId and per tool name, so
+   * tool_result_persist (which only sees the result) can fingerprint the args
+   */
+  recentArgs: Map<string, Record<string, unknown>>;
+  /** Args of the latest successful call per tool, shown by corrective-example stages */
+  examples: Map<string, Record<string, unknown>>;
+  /** Shadow mode: calls the guard would have refused, whose real results must not be re-counted */
+  shadowRefused: Set<string>;
+  /** Per-session override of the configured mode, set by `/toolguard mode` */
+  mode?: GuardMode;
+}
+
+export interface ModelAttribution {
+  provider: string;
+  modelId: string;
+}
+
+/** Fallback key for hook calls that carry no session identity */
+export const DEFAULT_SESSION_KEY = "default";
+
+/**
+ * Per-session guard state. Each chat on the gateway gets its own tracker so
+ * one session's failures never count toward another's loop or hard-cap limits.
+ */
+export class SessionRegistry {
+  private sessions: Map<string, SessionState> = new Map();
+  private readonly idleMs: number;
+  private lastSweep = 0;
+
+  constructor(private readonly config: SessionRegistryConfig = {}) {
+    this.idleMs = config.sessionIdleMs ?? 30 * 60 * 1000;
+  }
+
+  /** Get (or create) the state for a session and mark it active */
+  get(key: string, now = Date.now()): SessionState {
+    this.sweep(now);
+
+    let state = this.sessions.get(key);
+    if (!state) {
+      state = {
+        key,
+        tracker: new ToolGuardTracker(this.config),
+        cycles: new CycleDetector(this.config),
+        lastSeen: now,
+        turn: 0,
+        corrected: new Set(),
+        recentArgs: new Map(),
+        examples: new Map(),
+        shadowRefused: new Set(),
+      };
+      this.sessions.set(key, state);
+    }
+    state.lastSeen = now;
+    return state;
+  }
+
+  /** Begin a new turn for one session — other sessions are untouched */
+  startTurn(key: string, now = Date.now()): SessionState {
+    const state = this.get(key, now);
+    state.turn++;
+    clearTurnState(state);
+    return state;
+  }
+
+  /** Clear the current turn's failures, loops and blocks without starting a new turn */
+  reset(key: string, now = Date.now()): SessionState {
+    const state = this.get(key, now);
+    clearTurnState(state);
+    return state;
+  }
+
+  /** State for a session if it exists, without creating it or marking it active */
+  peek(key: string): SessionState | undefined {
+    return this.sessions.get(key);
+  }
+
+  /** All tracked sessions, most recently active first */
+  list(): SessionState[] {
+    return [...this.sessions.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  /** Record the provider/model a session is currently running on */
+  setModel(key: string, provider: string | undefined, model: string | undefined, now = Date.now()): void {
+    if (!provider && !model) return;
+    const state = this.get(key, now);
+    if (provider) state.provider = provider;
+    if (model) state.model = model;
+  }
+
+  /** Forget a session entirely (e.g. when the host reports it ended) */
+  delete(key: string): boolean {
+    return this.sessions.delete(key);
+  }
+
+  /** Remove sessions idle longer than the configured window; returns the count removed */
+  evictIdle(now = Date.now()): number {
+    let removed = 0;
+    for (const [key, state] of this.sessions) {
+      if (now - state.lastSeen > this.idleMs) {
+        this.sessions.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Full scans are cheap but pointless on every tool call — at most once a minute
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60 * 1000) return;
+    this.lastSweep = now;
+    this.evictIdle(now);
+  }
+}
+
+function clearTurnState(state: SessionState): void {
+  state.tracker.resetTurn();
+  state.cycles.reset();
+  state.corrected.clear();
+  state.recentArgs.clear();
+  state.shadowRefused.clear();
+}
+
+/** Resolve the session identity from a hook context (sessionKey wins over sessionId) */
+export function resolveSessionKey(ctx: any, event?: any): string {
+  return (
+    ctx?.sessionKey ??
+    ctx?.sessionId ??
+    event?.sessionKey ??
+    event?.sessionId ??
+    DEFAULT_SESSION_KEY
+  );
+}
+
+/** Provider/model named in a hook context or event, if the host supplies one */
+export function resolveModelFromContext(ctx: any, event?: any): { provider?: string; model?: string } {
+  const pick = (...values: unknown[]) => values.find((v): v is string => typeof v === "string" && v !== "");
+  return {
+    provider: pick(ctx?.modelProvider, ctx?.provider, event?.modelProvider, event?.provider),
+    model: pick(ctx?.modelId, ctx?.model, event?.modelId, event?.model),
+  };
+}
+
+/**
+ * Attribute a tool call to a model. The session's tracked model wins; the
+ * toolCallId prefix heuristic is only a last resort (it cannot tell
+ * OpenAI-compatible providers apart).
+ */
+export function attributeModel(state: SessionState | undefined, toolCallId = ""): ModelAttribution {
+  if (state?.model) {
+    return { provider: state.provider ?? "unknown", modelId: state.model };
+  }
+  const inferred = inferModelFromToolCallId(toolCallId);
+  return { provider: state?.provider ?? inferred, modelId: inferred };
+}
+
+/** Remember the params a tool was called with until its result comes back */
+export function rememberArgs(
+  state: SessionState,
+  toolName: string,
+  toolCallId: string | undefined,
+  params: Record<string, unknown>,
+): void {
+  state.recentArgs.set(`tool:${toolName}`, params);
+  if (toolCallId) state.recentArgs.set(`id:${toolCallId}`, params);
+}
+
+/** Params for a tool result: exact toolCallId match, else the tool's latest call */
+export function recallArgs(
+  state: SessionState,
+  toolName: string,
+  toolCallId: string | undefined,
+): Record<string, unknown> {
+  if (toolCallId) {
+    const byId = state.recentArgs.get(`id:${toolCallId}`);
+    if (byId) {
+      state.recentArgs.delete(`id:${toolCallId}`);
+      return byId;
+    }
+  }
+  return state.recentArgs.get(`tool:${toolName}`) ?? {};
+}
@@ -0,0 +1,130 @@
+import { PARAM_ALIASES, type ToolSchema } from "./constants.js";
+
+/** Minimum score (0–1) for a name to be offered as a suggestion */
+const MIN_SCORE = 0.6;
+
+export interface ParamSuggestion {
+  sent: string;
+  suggestion: string;
+}
+
+/**
+ * Closest candidate to a misspelled name (`Read`, `file_read`, `filepath`),
+ * or null when nothing is close or the best match is ambiguous.
+ */
+export function suggestName(input: string, candidates: Iterable<string>): string | null {
+  let best: string | null = null;
+  let bestScore = 0;
+  let tied = false;
+
+  for (const candidate of candidates) {
+    if (candidate === input) return null;
+    const score = nameSimilarity(input, candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+
+  return best && bestScore >= MIN_SCORE && !tied ? best : null;
+}
+
+/**
+ * Suggestions for sent keys the schema does not know. Keys are matched
+ * against params and their aliases, and always suggest the canonical name.
+ * Params the call already supplies are never suggested.
+ */
+export function suggestParams(args: Record<string, unknown>, schema: ToolSchema): ParamSuggestion[] {
+  const canonical = new Set([...schema.required, ...Object.keys(schema.params ?? {})]);
+  const names = new Map<string, string>(); // any accepted name → canonical
+  for (const param of canonical) {
+    for (const alias of PARAM_ALIASES[param] ?? [param]) names.set(alias, param);
+    names.set(param, param);
+  }
+
+  const supplied = new Set(Object.keys(args).map((key) => names.get(key)).filter(Boolean));
+  const open = [...names.keys()].filter((name) => !supplied.has(names.get(name)!));
+
+  const suggestions: ParamSuggestion[] = [];
+  for (const sent of Object.keys(args)) {
+    if (names.has(sent)) continue;
+    const match = suggestCanonical(sent, open, names);
+    if (match) suggestions.push({ sent, suggestion: match });
+  }
+  return suggestions;
+}
+
+export function formatParamSuggestions(suggestions: ParamSuggestion[]): string {
+  return suggestions.map(({ sent, suggestion }) => `You sent '${sent}'; did you mean '${suggestion}'?`).join(" ");
+}
+
+// Aliases of one param must not count as a tie with each other
+function suggestCanonical(sent: string, candidates: string[], names: Map<string, string>): string | null {
+  let best: string | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const candidate of candidates) {
+    const score = nameSimilarity(sent, candidate);
+    const param = names.get(candidate)!;
+    if (score > bestScore) {
+      best = param;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0 && param !== best) {
+      tied = true;
+    }
+  }
+  return best && bestScore >= MIN_SCORE && !tied ? best : null;
+}
+
+/**
+ * 1 for names that differ only in case or separators, then the better of
+ * edit-distance similarity and token overlap (`old` vs `old_string`).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const sa = squash(a);
+  const sb = squash(b);
+  if (sa === sb) return 1;
+
+  const edit = 1 - levenshtein(sa, sb) / Math.max(sa.length, sb.length);
+
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const shared = [...ta].filter((t) => tb.has(t)).length;
+  const overlap = shared / Math.min(ta.size, tb.size);
+
+  // One name fully containing the other (`filepath` ⊃ `path`)
+  const [short, long] = sa.length <= sb.length ? [sa, sb] : [sb, sa];
+  const contained = short.length >= 3 && long.includes(short) ? 0.7 : 0;
+
+  return Math.max(edit, overlap * 0.9, contained);
+}
+
+function squash(name: string): string {
+  return name.toLowerCase().replace(/[_\-\s.]/g, "");
+}
+
+function tokens(name: string): Set<string> {
+  return new Set(
+    name
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .split(/[_\-\s.]+/)
+      .filter(Boolean),
+  );
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
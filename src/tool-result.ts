@@ -0,0 +1,154 @@
+/** A failed tool result, and where in the message its error text lives */
+export interface ToolResultError {
+  text: string;
+  /** How the failure was recognized: the host's error flag, an error envelope, or the text itself */
+  source: "flag" | "envelope" | "text";
+  /** Index of the content block holding the error; null when content is a plain string */
+  block: number | null;
+  /** Set when the error sits inside a JSON envelope in that block */
+  envelope?: { key: "error" | "message"; nested: boolean };
+}
+
+// Fallback only, for hosts that set no error flag: the text must open with
+// the error, so a successful read of a file that mentions "error" is not one
+const ERROR_TEXT_PATTERNS = [
+  /^\s*\[(?:TOOL ERROR|TOOL ERROR LIMIT|LOOP DETECTED|CYCLE DETECTED|TURN ABORTED)\]/,
+  /^\s*(?:error|exception|fatal)\b\s*[:-]/i,
+  /^\s*[A-Z]\w*Error:\s/,
+  /^\s*Missing required\b/,
+  /^\s*Expected\b/,
+  /^\s*E(?:NOENT|ACCES|PERM|ISDIR|NOTDIR)\b/,
+];
+
+const ENVELOPE_KEYS = new Set(["error", "tool", "code", "details"]);
+
+/**
+ * Error in a tool result message, or null if the call succeeded. The host's
+ * `isError` flag decides when it is present; otherwise a `{status: "error"}`
+ * envelope (in the content or in `details`) marks a failure, and only then
+ * the text itself.
+ */
+export function detectToolError(message: any): ToolResultError | null {
+  if (!message) return null;
+  const flag = message.isError ?? message.is_error;
+  if (flag === false) return null;
+
+  const blocks = textBlocks(message.content);
+  const envelope = findEnvelope(blocks);
+  if (envelope) return { ...envelope, source: flag === true ? "flag" : "envelope" };
+
+  const detailsError = envelopeError(message.details);
+  const first = blocks.find((b) => b.text.trim() !== "");
+  if (detailsError) {
+    return { text: detailsError.text, source: "envelope", block: first?.index ?? null };
+  }
+
+  if (flag === true) {
+    return { text: first?.text ?? "Tool call failed", source: "flag", block: first?.index ?? null };
+  }
+
+  const matched = blocks.find((b) => ERROR_TEXT_PATTERNS.some((p) => p.test(b.text)));
+  return matched ? { text: matched.text, source: "text", block: matched.index } : null;
+}
+
+/**
+ * Replace the error text with `newText`, leaving every other content block
+ * (images, extra text) as it was. An error inside a JSON envelope is
+ * replaced in place so the envelope keeps its shape.
+ */
+export function rewriteToolError(message: any, error: ToolResultError, newText: string): any {
+  const clone = JSON.parse(JSON.stringify(message));
+
+  if (error.block === null) {
+    if (typeof clone.content === "string") {
+      clone.content = error.envelope ? rewriteEnvelope(clone.content, error.envelope, newText) : newText;
+    } else if (Array.isArray(clone.content)) {
+      clone.content.unshift({ type: "text", text: newText });
+    } else {
+      clone.content = newText;
+    }
+    return clone;
+  }
+
+  const block = clone.content[error.block];
+  block.text = error.envelope ? rewriteEnvelope(block.text, error.envelope, newText) : newText;
+  return clone;
+}
+
+/** All text in a tool result message, for hashing */
+export function messageText(message: any): string {
+  const content = message?.content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((block: any) => (typeof block?.text === "string" ? block.text : JSON.stringify(block))).join("\n");
+  }
+  return JSON.stringify(content ?? null);
+}
+
+/** Append an advisory note to a successful result without touching its content */
+export function appendNoteToMessage(message: any, note: string): any {
+  const clone = JSON.parse(JSON.stringify(message));
+  if (typeof clone.content === "string") {
+    clone.content = `${clone.content}\n\n${note}`;
+  } else if (Array.isArray(clone.content)) {
+    clone.content.push({ type: "text", text: note });
+  }
+  return clone;
+}
+
+function textBlocks(content: unknown): { text: string; index: number | null }[] {
+  if (typeof content === "string") return [{ text: content, index: null }];
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((block: any, index) =>
+    block?.type === "text" && typeof block.text === "string" ? [{ text: block.text, index }] : [],
+  );
+}
+
+function findEnvelope(blocks: { text: string; index: number | null }[]): Omit<ToolResultError, "source"> | null {
+  for (const { text, index } of blocks) {
+    if (!text.trimStart().startsWith("{")) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      continue;
+    }
+    const found = envelopeError(parsed);
+    if (found) return { text: found.text, block: index, envelope: found.envelope };
+  }
+  return null;
+}
+
+/**
+ * `{status: "error", error: "..."}`, `{error: {message: "..."}}` and
+ * `{status: "error", message: "..."}` — the shapes hosts and tools use.
+ */
+function envelopeError(value: any): { text: string; envelope: NonNullable<ToolResultError["envelope"]> } | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  // Without a failure marker, only a bare `{error}` object counts — a JSON
+  // file that happens to have an "error" field is not a failed call
+  const failed =
+    value.status === "error" ||
+    value.ok === false ||
+    value.success === false ||
+    Object.keys(value).every((key) => ENVELOPE_KEYS.has(key));
+  if (!failed) return null;
+
+  if (typeof value.error === "string" && value.error !== "") {
+    return { text: value.error, envelope: { key: "error", nested: false } };
+  }
+  if (typeof value.error?.message === "string") {
+    return { text: value.error.message, envelope: { key: "error", nested: true } };
+  }
+  if (value.status === "error" && typeof value.message === "string") {
+    return { text: value.message, envelope: { key: "message", nested: false } };
+  }
+  return null;
+}
+
+function rewriteEnvelope(text: string, envelope: NonNullable<ToolResultError["envelope"]>, newText: string): string {
+  const parsed = JSON.parse(text);
+  if (envelope.nested) parsed[envelope.key].message = newText;
+  else parsed[envelope.key] = newText;
+  return JSON.stringify(parsed);
+}
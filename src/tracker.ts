@@ -1,43 +1,224 @@
+import { fingerprintArgs, similarFingerprints, similarity, normalizeText, type Fingerprint } from "./fingerprint.js";
+import { renderTemplate } from "./classifier.js";
+import {
+  defaultLadder,
+  selectStage,
+  type EscalationAction,
+  type EscalationStage,
+} from "./escalation.js";
+
+export interface TrackerConfig {
+  maxIdenticalFailures?: number;
+  maxFailuresPerTurn?: number;
+  /** After the hard cap, block every tool — not just the ones that failed this turn */
+  blockAllToolsAfterCap?: boolean;
+  /** How similar (0–1) long free-text args and errors must be to count as the same loop; 1 = exact */
+  similarityThreshold?: number;
+  /** Identical successful calls with an unchanged result before an advisory note (0 = off) */
+  maxRepeatedSuccesses?: number;
+}
+
+interface FailureRecord {
+  toolName: string;
+  fingerprint: Fingerprint;
+  error: string;
+  count: number;
+}
+
+/** Outcome names reported to hooks; "continue" is a plain corrective and "hard-cap" is block-tools */
+export type TrackAction = "continue" | "corrective-example" | "loop-detected" | "hard-cap" | "abort-turn";
+
+export interface TrackResult {
+  action: TrackAction;
+  /** Rendered message for terminal stages, or a stage template's corrective text */
+  message?: string;
+  /** 1-based escalation stage chosen from the ladder */
+  stage: number;
+  escalation: EscalationAction;
+}
+
+const TRACK_ACTIONS: Record<EscalationAction, TrackAction> = {
+  "corrective": "continue",
+  "corrective-example": "corrective-example",
+  "loop-detected": "loop-detected",
+  "block-tools": "hard-cap",
+  "abort-turn": "abort-turn",
+};
+
+const DEFAULT_TEMPLATES: Partial<Record<EscalationAction, string>> = {
+  "loop-detected":
+    `[LOOP DETECTED] Tool "{tool}" failed {count} times with identical arguments. This is a non-retryable error. ` +
+    `Do NOT retry this call. Try a different approach or report the issue.`,
+  "block-tools":
+    "[TOOL ERROR LIMIT] {failures} tool failures in this turn. Stopping tool execution. Review your approach before continuing.",
+  "abort-turn":
+    "[TURN ABORTED] {failures} tool failures in this turn. Every further tool call this turn will be refused. " +
+    "Respond to the user now with what you have and explain what went wrong.",
+};
+
+/** The current turn as seen by the tracker, for status reports */
+export interface TrackerSnapshot {
+  /** Failed calls this turn */
+  failures: number;
+  /** Failures weighted by category (what turn thresholds compare against) */
+  weightedFailures: number;
+  failedTools: string[];
+  /** What is refused for the rest of the turn, if a blocking stage was reached */
+  blockMode: "failed" | "all" | "abort" | null;
+  /** Calls that failed more than once, most repeated first, with their normalized error */
+  repeats: { toolName: string; count: number; error: string }[];
+}
+
+interface SuccessRecord {
+  resultHash: string;
+  count: number;
+}
+
 export class ToolGuardTracker {
-  private failures: Map<string, number> = new Map();
+  private failures: FailureRecord[] = [];
+  private successes: Map<string, SuccessRecord> = new Map();
   private totalFailures = 0;
-  private maxIdentical: number;
-  private maxPerTurn: number;
+  private totalWeight = 0;
+  private failedTools: Set<string> = new Set();
+  /** Set once a block-tools or abort-turn stage is reached */
+  private blockMode: "failed" | "all" | "abort" | null = null;
+  private ladder: EscalationStage[];
+  private threshold: number;
+  private maxRepeats: number;
+
+  constructor(config: TrackerConfig = {}) {
+    this.ladder = defaultLadder(config);
+    this.threshold = config.similarityThreshold ?? 0.9;
+    this.maxRepeats = config.maxRepeatedSuccesses ?? 3;
+  }
+
+  /**
+   * Once a blocking stage is reached, further calls in the turn are refused
+   * before they execute. Returns the terminal message for a blocked call, or null.
+   */
+  checkBlocked(toolName: string): string | null {
+    if (!this.blockMode) return null;
+    if (this.blockMode === "abort") {
+      return (
+        `[TURN ABORTED] This turn was stopped after ${this.totalFailures} tool failures. ` +
+        `The call to "${toolName}" was not executed. Do NOT call tools again this turn — ` +
+        `respond to the user with what you have and explain what went wrong.`
+      );
+    }
+    if (this.blockMode === "failed" && !this.failedTools.has(toolName)) return null;
+    return (
+      `[TOOL ERROR LIMIT] Tool execution is stopped for this turn after ${this.totalFailures} tool failures. ` +
+      `The call to "${toolName}" was not executed. Do NOT call tools again this turn — ` +
+      `respond with what you have and explain what went wrong.`
+    );
+  }
 
-  constructor(config: { maxIdenticalFailures?: number; maxFailuresPerTurn?: number } = {}) {
-    this.maxIdentical = config.maxIdenticalFailures ?? 2;
-    this.maxPerTurn = config.maxFailuresPerTurn ?? 5;
+  isCapped(): boolean {
+    return this.blockMode !== null;
   }
 
-  recordFailure(toolName: string, args: unknown, error: string, modelId: string): { action: string; message?: string } {
+  /**
+   * Record a failed call and pick its escalation stage. `weight` is how much
+   * the failure counts toward turn thresholds (see CATEGORY_POLICIES); the
+   * message still reports real calls. `ladder` defaults to the config's limits.
+   */
+  recordFailure(
+    toolName: string,
+    args: unknown,
+    error: string,
+    modelId: string,
+    weight = 1,
+    ladder: EscalationStage[] = this.ladder,
+  ): TrackResult {
     this.totalFailures++;
+    this.totalWeight += weight;
+    this.failedTools.add(toolName);
 
-    if (this.totalFailures >= this.maxPerTurn) {
-      return {
-        action: "hard-cap",
-        message: `[TOOL ERROR LIMIT] ${this.totalFailures} tool failures in this turn. Stopping tool execution. Review your approach before continuing.`,
-      };
+    // Near-duplicates (aliased keys, reordered keys, small whitespace or text
+    // changes) count toward the same loop as exact repeats
+    const errorNorm = normalizeText(error).toLowerCase().slice(0, 200);
+    const fingerprint = fingerprintArgs(args);
+    let record = this.failures.find((f) =>
+      f.toolName === toolName &&
+      similarity(f.error, errorNorm) >= this.threshold &&
+      similarFingerprints(f.fingerprint, fingerprint, this.threshold),
+    );
+    if (!record) {
+      record = { toolName, fingerprint, error: errorNorm, count: 0 };
+      this.failures.push(record);
     }
+    const count = ++record.count;
 
-    const errorNorm = error.replace(/\s+/g, " ").trim().toLowerCase().slice(0, 200);
-    const argsStr = JSON.stringify(args ?? {});
-    const key = `${toolName}:${argsStr}:${errorNorm}`;
+    const decision = selectStage(ladder, { identical: count, turnFailures: this.totalWeight });
+    const { action, definition } = decision;
+    if (action === "abort-turn") {
+      this.blockMode = "abort";
+    } else if (action === "block-tools" && this.blockMode !== "abort") {
+      this.blockMode = definition.allTools || this.blockMode === "all" ? "all" : "failed";
+    }
+
+    const template = definition.template ?? DEFAULT_TEMPLATES[action];
+    return {
+      action: TRACK_ACTIONS[action],
+      message: template
+        ? renderTemplate(template, {
+            tool: toolName,
+            count: String(count),
+            failures: String(this.totalFailures),
+            error,
+          })
+        : undefined,
+      stage: decision.stage,
+      escalation: action,
+    };
+  }
 
-    const count = (this.failures.get(key) ?? 0) + 1;
-    this.failures.set(key, count);
+  /**
+   * Record a successful call. Returns an advisory note once the same call
+   * (by fingerprint) has returned the same result `maxRepeatedSuccesses`
+   * times this turn — the model is re-reading what it already has.
+   */
+  recordSuccess(toolName: string, args: unknown, resultHash: string): string | null {
+    if (this.maxRepeats <= 0) return null;
 
-    if (count >= this.maxIdentical) {
-      return {
-        action: "loop-detected",
-        message: `[LOOP DETECTED] Tool "${toolName}" failed ${count} times with identical arguments. This is a non-retryable error. Do NOT retry this call. Try a different approach or report the issue.`,
-      };
+    const key = `${toolName}:${JSON.stringify(fingerprintArgs(args))}`;
+    const record = this.successes.get(key);
+    if (!record || record.resultHash !== resultHash) {
+      // First call, or the result changed — earlier calls were not wasted
+      this.successes.set(key, { resultHash, count: 1 });
+      return null;
     }
 
-    return { action: "continue" };
+    const count = ++record.count;
+    if (count < this.maxRepeats) return null;
+
+    const subject = toolName === "read" ? "read this file" : `called ${toolName} with these arguments`;
+    const unchanged = toolName === "read" ? "its contents have not changed" : "the result has not changed";
+    return (
+      `[TOOL NOTE] You already ${subject} ${count} times this turn; ${unchanged}. ` +
+      `Use the earlier result instead of calling it again.`
+    );
+  }
+
+  snapshot(): TrackerSnapshot {
+    return {
+      failures: this.totalFailures,
+      weightedFailures: this.totalWeight,
+      failedTools: [...this.failedTools],
+      blockMode: this.blockMode,
+      repeats: this.failures
+        .filter((f) => f.count > 1)
+        .sort((a, b) => b.count - a.count)
+        .map((f) => ({ toolName: f.toolName, count: f.count, error: f.error })),
+    };
   }
 
   resetTurn(): void {
-    this.failures.clear();
+    this.failures = [];
+    this.successes.clear();
     this.totalFailures = 0;
+    this.totalWeight = 0;
+    this.failedTools.clear();
+    this.blockMode = null;
   }
 }
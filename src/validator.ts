@@ -0,0 +1,50 @@
+import { TOOL_SCHEMAS, PARAM_ALIASES } from "./constants.js";
+import type { SchemaRegistry } from "./schemas.js";
+
+export interface ValidationResult {
+  /** Params with known aliases rewritten to their canonical names */
+  params: Record<string, unknown>;
+  /** Aliases that were rewritten, as `alias → canonical` pairs */
+  repaired: Array<[string, string]>;
+  /** Required params still missing after alias repair */
+  missing: string[];
+}
+
+/**
+ * Check a tool call's arguments against its schema before it executes.
+ * Tools without a known schema pass through untouched.
+ */
+export function validateToolArgs(
+  toolName: string,
+  params: Record<string, unknown>,
+  schemas?: SchemaRegistry,
+): ValidationResult {
+  const schema = schemas ? schemas.get(toolName) : TOOL_SCHEMAS[toolName];
+  if (!schema) return { params, repaired: [], missing: [] };
+
+  const fixed: Record<string, unknown> = { ...params };
+  const repaired: Array<[string, string]> = [];
+  const missing: string[] = [];
+
+  for (const param of schema.required) {
+    if (fixed[param] != null) continue;
+
+    const alias = (PARAM_ALIASES[param] ?? []).find(
+      (a) => a !== param && fixed[a] != null,
+    );
+    if (alias) {
+      fixed[param] = fixed[alias];
+      delete fixed[alias];
+      repaired.push([alias, param]);
+    } else {
+      missing.push(param);
+    }
+  }
+
+  return { params: repaired.length > 0 ? fixed : params, repaired, missing };
+}
+
+/** Messages the guard itself produced — never re-count these as fresh failures */
+export function isGuardMessage(text: string): boolean {
+  return /\[(TOOL ERROR|TOOL ERROR LIMIT|LOOP DETECTED|CYCLE DETECTED|TURN ABORTED)\]/.test(text);
+}
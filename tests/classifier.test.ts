@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { classifyError, inferModelFromToolCallId, buildCorrectiveMessage } from "../src/classifier.js";
+import {
+  classifyError,
+  categorizeError,
+  inferModelFromToolCallId,
+  buildCorrectiveMessage,
+  renderTemplate,
+  CATEGORY_POLICIES,
+} from "../src/classifier.js";
 
 describe("classifyError", () => {
   it("classifies 'Missing required parameter:' as non-retryable", () => {
@@ -27,6 +34,36 @@ describe("classifyError", () => {
   });
 });
 
+describe("categorizeError", () => {
+  it.each([
+    ["Missing required parameter: path", "missing-param"],
+    ["Expected string but received undefined", "type-mismatch"],
+    ["Unknown tool: file_read", "unknown-tool"],
+    ["ENOENT: no such file or directory, open '/x'", "not-found"],
+    ["EACCES: permission denied, open '/etc/shadow'", "permission-denied"],
+    ["Request timed out after 30s", "timeout"],
+    ["429 Too Many Requests", "rate-limit"],
+    ["Unexpected end of JSON input", "malformed-json"],
+    ["Expected ',' or '}' after property value in JSON at position 7", "malformed-json"],
+    ["Could not find the exact text in /src/a.ts", "edit-no-match"],
+    ["Command exited with code 1", "unknown"],
+  ])("categorizes %j as %s", (message, category) => {
+    expect(categorizeError(message)).toBe(category);
+  });
+
+  it("gives every category a policy", () => {
+    for (const policy of Object.values(CATEGORY_POLICIES)) {
+      expect(policy.template).toContain("{tool}");
+      expect(policy.weight).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("treats timeouts and rate limits as retryable", () => {
+    expect(classifyError("429 Too Many Requests")).toBe("retryable");
+    expect(classifyError("ENOENT: no such file or directory")).toBe("non-retryable");
+  });
+});
+
 describe("inferModelFromToolCallId", () => {
   it("identifies Anthropic model from toolu_ prefix", () => {
     expect(inferModelFromToolCallId("toolu_abc123")).toBe("anthropic");
@@ -75,9 +112,49 @@ describe("buildCorrectiveMessage", () => {
     expect(msg).not.toContain("'path'");
   });
 
+  it("uses the category template for non-parameter errors", () => {
+    const msg = buildCorrectiveMessage("edit", { path: "a.ts" }, "Could not find the exact text in a.ts");
+    expect(msg).toContain("[TOOL ERROR] edit() failed");
+    expect(msg).toContain("copy the exact text");
+  });
+
   it("builds corrective message for exec() with missing command", () => {
     const msg = buildCorrectiveMessage("exec", {}, "Missing required parameter: command");
     expect(msg).toContain("'command'");
     expect(msg).toContain("exec()");
   });
+
+  it("drops echoed args and type notes at brief verbosity", () => {
+    const msg = buildCorrectiveMessage("read", { limit: 5 }, "Missing required parameter: path", undefined, undefined, "brief");
+    expect(msg).toBe('[TOOL ERROR] read() requires \'path\'. Correct usage: read({ path: "path/to/file" }).');
+  });
+
+  it("only tags the original error at minimal verbosity", () => {
+    const msg = buildCorrectiveMessage("read", {}, "Missing required parameter: path", undefined, undefined, "minimal");
+    expect(msg).toBe("[TOOL ERROR] read() failed: Missing required parameter: path");
+  });
+
+  it("asks 'did you mean' for misspelled param names", () => {
+    const msg = buildCorrectiveMessage("read", { filepath: "/a" }, "Missing required parameter: path");
+    expect(msg).toContain("You sent 'filepath'; did you mean 'path'?");
+  });
+
+  it("suggests the closest tool for unknown-tool errors", () => {
+    const msg = buildCorrectiveMessage("Read", { path: "/a" }, "Unknown tool: Read");
+    expect(msg).toContain("Read() is not an available tool. Did you mean read()?");
+    expect(msg).toContain('Correct usage: read({ path: "path/to/file" })');
+  });
+
+  it("falls back to the unknown-tool template without a close match", () => {
+    const msg = buildCorrectiveMessage("browser", {}, "Unknown tool: browser");
+    expect(msg).toBe(
+      "[TOOL ERROR] browser() is not an available tool: Unknown tool: browser. Only call tools listed in your tool definitions.",
+    );
+  });
+});
+
+describe("renderTemplate", () => {
+  it("substitutes known placeholders and leaves others intact", () => {
+    expect(renderTemplate("{tool}() {nope}", { tool: "read" })).toBe("read() {nope}");
+  });
 });
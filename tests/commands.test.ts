@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { runToolGuardCommand, type ToolGuardCommandDeps } from "../src/commands.js";
+import { SessionRegistry } from "../src/sessions.js";
+
+function deps(sessions = new SessionRegistry({ maxFailuresPerTurn: 3 })): ToolGuardCommandDeps {
+  return { sessions, defaultMode: "enforce", profileName: () => "default" };
+}
+
+function run(args: string, d: ToolGuardCommandDeps, ctx: Record<string, unknown> = {}): string {
+  return runToolGuardCommand({ isAuthorizedSender: true, args, ...ctx }, d).text;
+}
+
+describe("/toolguard status", () => {
+  it("reports mode, profile, failures, block and repeats for the sender's session", () => {
+    const d = deps();
+    const state = d.sessions.startTurn("chat-1");
+    d.sessions.setModel("chat-1", "fireworks", "minimax-m2p5");
+    for (let i = 0; i < 3; i++) state.tracker.recordFailure("read", {}, "Missing required parameter: path", "unknown");
+
+    const text = run("", d, { sessionKey: "chat-1" });
+    expect(text.split("\n")).toEqual([
+      "Tool guard — session chat-1, turn 1",
+      "Mode: enforce",
+      "Profile: default (fireworks/minimax-m2p5)",
+      "Failures this turn: 3 — read",
+      "Blocked: failing tools are refused for the rest of the turn",
+      "Repeated failures:",
+      "- read ×3: missing required parameter: path",
+    ]);
+  });
+
+  it("lists sessions instead of guessing when the host gives no session", () => {
+    const d = deps();
+    expect(run("status", d)).toBe("No tool activity recorded yet.");
+    expect(run("status missing", d)).toBe("No tool activity recorded for session missing yet.");
+    expect(d.sessions.size).toBe(0);
+
+    d.sessions.get("old", 100);
+    d.sessions.get("new", 200).mode = "shadow";
+    expect(run("status", d).split("\n")).toEqual([
+      "Active sessions, most recent first:",
+      "- new — shadow, turn 0, 0 failures",
+      "- old — enforce, turn 0, 0 failures",
+      "For details: /toolguard status <sessionKey>",
+    ]);
+    expect(run("status old", d)).toContain("session old, turn 0");
+  });
+});
+
+describe("/toolguard reset", () => {
+  it("clears the turn's block without advancing the turn", () => {
+    const d = deps();
+    const state = d.sessions.startTurn("chat-1");
+    for (let i = 0; i < 3; i++) state.tracker.recordFailure(`t${i}`, {}, "boom", "unknown");
+    expect(state.tracker.checkBlocked("t0")).not.toBeNull();
+
+    expect(run("reset", d, { sessionKey: "chat-1" })).toBe("Cleared this turn's failures, loops and blocks for session chat-1.");
+    expect(state.tracker.checkBlocked("t0")).toBeNull();
+    expect(state.turn).toBe(1);
+  });
+
+  it("has nothing to reset for an unknown session", () => {
+    expect(run("reset", deps(), { sessionKey: "chat-1" })).toContain("nothing to reset");
+  });
+});
+
+describe("/toolguard mode", () => {
+  it("overrides the mode for one session", () => {
+    const d = deps();
+    expect(run("mode SHADOW", d, { sessionKey: "chat-1" })).toBe("Tool guard mode for session chat-1 is now shadow.");
+    expect(d.sessions.peek("chat-1")?.mode).toBe("shadow");
+    expect(run("mode", d, { sessionKey: "chat-1" })).toBe("Tool guard mode for session chat-1: shadow (session override; default enforce).");
+    expect(run("mode", d, { sessionKey: "chat-2" })).toBe("Tool guard mode: enforce.");
+
+    run("mode off other", d, { sessionKey: "chat-1" });
+    expect(d.sessions.peek("other")?.mode).toBe("off");
+    expect(d.sessions.peek("chat-1")?.mode).toBe("shadow");
+  });
+
+  it("rejects unknown modes and needs a session to apply to", () => {
+    const d = deps();
+    expect(run("mode strict", d, { sessionKey: "chat-1" })).toMatch(/^Unknown mode "strict"\. Usage:/);
+    expect(d.sessions.peek("chat-1")).toBeUndefined();
+    expect(run("mode off", d)).toBe(
+      "This channel does not identify a session, so /toolguard mode off needs one: /toolguard mode off <sessionKey>.",
+    );
+  });
+});
+
+describe("/toolguard with the documented host context", () => {
+  // senderId, channel, isAuthorizedSender, args, commandBody, config — no session identity
+  const hostCtx = (args: string) => ({
+    senderId: "op-1",
+    channel: "telegram",
+    isAuthorizedSender: true,
+    args,
+    commandBody: `/toolguard ${args}`,
+    config: {},
+  });
+
+  it("refuses to reset or change the mode of a guessed session", () => {
+    const d = deps();
+    for (const key of ["chat-a", "chat-b"]) {
+      const state = d.sessions.startTurn(key, 1000);
+      for (let i = 0; i < 3; i++) state.tracker.recordFailure(`t${i}`, {}, "boom", "unknown");
+    }
+
+    const reset = runToolGuardCommand(hostCtx("reset"), d).text;
+    expect(reset).toMatch(/^This channel does not identify a session, so \/toolguard reset needs one/);
+    expect(reset).toContain("- chat-a — enforce, turn 1, 3 failures, blocked");
+    expect(reset).toContain("- chat-b — enforce, turn 1, 3 failures, blocked");
+    expect(runToolGuardCommand(hostCtx("mode off"), d).text).toContain("needs one");
+
+    for (const key of ["chat-a", "chat-b"]) {
+      const state = d.sessions.peek(key)!;
+      expect(state.mode).toBeUndefined();
+      expect(state.tracker.checkBlocked("t0")).not.toBeNull();
+    }
+  });
+
+  it("acts on the session named after the subcommand", () => {
+    const d = deps();
+    d.sessions.startTurn("chat-a").tracker.recordFailure("read", {}, "boom", "unknown");
+    d.sessions.startTurn("chat-b");
+
+    expect(runToolGuardCommand(hostCtx("mode off chat-b"), d).text).toBe("Tool guard mode for session chat-b is now off.");
+    expect(runToolGuardCommand(hostCtx("reset chat-a"), d).text).toContain("session chat-a");
+    expect(d.sessions.peek("chat-a")?.mode).toBeUndefined();
+    expect(d.sessions.peek("chat-b")?.mode).toBe("off");
+    expect(d.sessions.peek("chat-a")?.tracker.snapshot().failures).toBe(0);
+  });
+});
+
+describe("/toolguard", () => {
+  it("refuses unauthorized senders", () => {
+    const d = deps();
+    const reply = runToolGuardCommand({ isAuthorizedSender: false, args: "mode off", sessionKey: "chat-1" }, d);
+    expect(reply.text).toBe("Only authorized senders can use /toolguard.");
+    expect(d.sessions.peek("chat-1")).toBeUndefined();
+  });
+
+  it("prints usage for unknown subcommands", () => {
+    expect(run("frobnicate", deps())).toMatch(/^Usage: \/toolguard status \| reset \| mode/);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { CycleDetector, formatCycleMessage } from "../src/cycles.js";
+
+describe("CycleDetector", () => {
+  it("detects an A, B, A, B alternation of failing calls", () => {
+    const detector = new CycleDetector();
+    expect(detector.record("edit", { path: "/a" }, true)).toBeNull();
+    expect(detector.record("exec", { command: "npm test" }, true)).toBeNull();
+    expect(detector.record("edit", { path: "/a" }, true)).toBeNull();
+    const match = detector.record("exec", { command: "npm test" }, true);
+    expect(match?.calls).toEqual(['edit(path: "/a")', 'exec(command: "npm test")']);
+    expect(match?.repeats).toBe(2);
+  });
+
+  it("detects a successful read between failing edits", () => {
+    const detector = new CycleDetector();
+    detector.record("read", { path: "/a" }, false);
+    detector.record("edit", { file_path: "/a" }, true);
+    detector.record("read", { path: "/a" }, false);
+    expect(detector.record("edit", { path: "/a" }, true)).not.toBeNull();
+  });
+
+  it("detects cycles of length 3", () => {
+    const detector = new CycleDetector();
+    const calls = ["read", "edit", "exec", "read", "edit"];
+    for (const tool of calls) detector.record(tool, { path: "/a" }, true);
+    expect(detector.record("exec", { path: "/a" }, true)?.calls).toHaveLength(3);
+  });
+
+  it("ignores a single call repeating — that is the loop breaker's job", () => {
+    const detector = new CycleDetector();
+    for (let i = 0; i < 5; i++) {
+      expect(detector.record("read", { path: "/a" }, true)).toBeNull();
+    }
+  });
+
+  it("ignores cycles with no failures and only reports on a failing call", () => {
+    const detector = new CycleDetector();
+    for (let i = 0; i < 4; i++) {
+      expect(detector.record(i % 2 ? "edit" : "read", { path: "/a" }, false)).toBeNull();
+    }
+  });
+
+  it("starts over after a detection", () => {
+    const detector = new CycleDetector();
+    for (let i = 0; i < 3; i++) detector.record(i % 2 ? "b" : "a", {}, true);
+    expect(detector.record("b", {}, true)).not.toBeNull();
+    expect(detector.record("a", {}, true)).toBeNull();
+    expect(detector.record("b", {}, true)).toBeNull();
+  });
+
+  it("respects minCycleRepeats", () => {
+    const detector = new CycleDetector({ minCycleRepeats: 3 });
+    for (let i = 0; i < 5; i++) {
+      expect(detector.record(i % 2 ? "b" : "a", {}, true)).toBeNull();
+    }
+    expect(detector.record("b", {}, true)?.repeats).toBe(3);
+  });
+});
+
+describe("formatCycleMessage", () => {
+  it("names each call in the cycle", () => {
+    const text = formatCycleMessage({ calls: ['read(path: "/a")', 'edit(path: "/a")'], repeats: 2 });
+    expect(text).toContain("[CYCLE DETECTED]");
+    expect(text).toContain('read(path: "/a") → edit(path: "/a")');
+    expect(text).toContain("last 4 tool calls");
+  });
+});
@@ -149,4 +149,65 @@ describe("DashboardServer API", () => {
     expect(m.totalTokens).toBe(1000);
     expect(typeof m.avgCostPer1K).toBe("number");
   });
+
+  it("GET /api/tool-failures returns empty summary with empty database", async () => {
+    const { status, body } = await getJson("/api/tool-failures");
+    expect(status).toBe(200);
+    expect(body.totalFailures).toBe(0);
+    expect(body.byTool).toEqual([]);
+    expect(body.topSignatures).toEqual([]);
+  });
+
+  it("GET /api/tool-failures summarizes actions, tools and malformed rates", async () => {
+    const now = new Date().toISOString();
+    db.recordUsage({ ts: now, gatewayId: "g1", model: "kimi", totalTokens: 10 });
+    db.recordUsage({ ts: now, gatewayId: "g1", model: "kimi", totalTokens: 10 });
+    const base = { ts: now, gatewayId: "g1", model: "kimi", tool: "read", category: "missing-param" };
+    db.recordToolFailure({ ...base, action: "corrective", errorMessage: "Missing required parameter: path" });
+    db.recordToolFailure({ ...base, action: "loop-detected", errorMessage: "Missing required parameter: path" });
+    db.recordToolFailure({ ...base, tool: "exec", category: "timeout", action: "passed", errorMessage: "timed out" });
+
+    const { body } = await getJson("/api/tool-failures?hours=1");
+    expect(body.totalFailures).toBe(3);
+    expect(body.corrective).toBe(1);
+    expect(body.loopDetected).toBe(1);
+    expect(body.byTool[0]).toEqual({ tool: "read", failures: 2 });
+    expect(body.topSignatures[0].failures).toBe(2);
+    expect(body.malformedLeaderboard[0]).toEqual({ model: "kimi", malformed: 2, calls: 2, rate: 1 });
+  });
+
+  it("GET /api/tool-failures/timeseries groups by model", async () => {
+    const now = new Date().toISOString();
+    db.recordToolFailure({ ts: now, model: "kimi", tool: "read", category: "missing-param", action: "corrective" });
+    db.recordToolFailure({ ts: now, model: "glm", tool: "read", category: "missing-param", action: "corrective" });
+
+    const { body } = await getJson("/api/tool-failures/timeseries?hours=1&groupBy=model");
+    expect(body.timestamps).toHaveLength(1);
+    expect(body.series.map((s: any) => s.key).sort()).toEqual(["glm", "kimi"]);
+  });
+
+  it("GET /api/tool-failures/recent returns latest failures", async () => {
+    db.recordToolFailure({ ts: new Date().toISOString(), tool: "edit", category: "edit-no-match", action: "corrective" });
+    const { body } = await getJson("/api/tool-failures/recent?limit=5");
+    expect(body).toHaveLength(1);
+    expect(body[0].tool).toBe("edit");
+  });
+
+  it("GET /api/tool-calls reports error rates, latency and correction success", async () => {
+    const now = new Date().toISOString();
+    for (const durationMs of [10, 20, 30, 40]) {
+      db.recordToolCall({ ts: now, model: "kimi", tool: "edit", success: durationMs !== 40, durationMs });
+    }
+    db.recordToolCall({ ts: now, model: "kimi", tool: "edit", success: false, afterCorrection: true });
+
+    const { status, body } = await getJson("/api/tool-calls?hours=1");
+    expect(status).toBe(200);
+    expect(body.totalCalls).toBe(5);
+    expect(body.totalErrors).toBe(2);
+    const [row] = body.byModelTool;
+    expect(row.errorRate).toBeCloseTo(0.4);
+    expect(row.p50DurationMs).toBe(20);
+    expect(row.p95DurationMs).toBe(40);
+    expect(row.correctionSuccessRate).toBe(0);
+  });
 });
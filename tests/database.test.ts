@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import Database from "better-sqlite3";
 import { MetricsDatabase } from "../src/database.js";
 
 let tmpDir: string;
@@ -84,3 +85,82 @@ describe("MetricsDatabase", () => {
     expect(models).toContain("haiku");
   });
 });
+
+describe("MetricsDatabase tool failures", () => {
+  it("records a tool failure with rollups", () => {
+    db.recordToolFailure({
+      ts: new Date().toISOString(),
+      gatewayId: "g1",
+      sessionKey: "s1",
+      provider: "fireworks",
+      model: "kimi-k2p5",
+      tool: "edit",
+      category: "edit-no-match",
+      action: "corrective",
+      errorMessage: "Could not find the exact text",
+      args: { path: "a.ts" },
+    });
+
+    const raw = db.getToolFailures(1);
+    expect(raw).toHaveLength(1);
+    expect(raw[0].category).toBe("edit-no-match");
+    expect(JSON.parse(raw[0].args)).toEqual({ path: "a.ts" });
+
+    const hourly = db.getToolFailureHourlyStats(1);
+    expect(hourly[0].failure_count).toBe(1);
+    expect(db.getToolFailureDailyStats(1)[0].tool).toBe("edit");
+  });
+
+  it("aggregates identical failures into one rollup row", () => {
+    const now = new Date().toISOString();
+    const failure = { ts: now, gatewayId: "g1", model: "m1", tool: "read", category: "missing-param", action: "loop-detected" as const };
+    db.recordToolFailure(failure);
+    db.recordToolFailure(failure);
+
+    const rows = db.getToolFailureHourlyStats(1);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].failure_count).toBe(2);
+  });
+
+  it("stores the args hash and adds the column to older databases", () => {
+    const legacyPath = join(tmpDir, "legacy.db");
+    const legacy = new Database(legacyPath);
+    legacy.prepare(`CREATE TABLE tool_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, ts TEXT NOT NULL, gateway_id TEXT, session_key TEXT, provider TEXT,
+      model TEXT, tool TEXT NOT NULL, category TEXT NOT NULL, action TEXT NOT NULL, error_message TEXT, args TEXT
+    )`).run();
+    legacy.close();
+
+    const migrated = new MetricsDatabase(legacyPath);
+    migrated.recordToolFailure({ ts: new Date().toISOString(), tool: "exec", category: "unknown", action: "corrective", argsHash: "abc123" });
+    expect(migrated.getToolFailures(1)[0].args_hash).toBe("abc123");
+    migrated.close();
+  });
+
+  it("applies retention to tool failures", () => {
+    const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    db.recordToolFailure({ ts: old, tool: "read", category: "missing-param", action: "corrective" });
+    db.cleanupOldData({ rawDays: 30, hourlyDays: 90, dailyDays: 365 });
+    expect(db.getToolFailures(24 * 60)).toHaveLength(0);
+    expect(db.getToolFailureDailyStats(60)).toHaveLength(1);
+  });
+});
+
+describe("MetricsDatabase tool calls", () => {
+  it("rolls up calls, errors, durations and corrections", () => {
+    const now = new Date().toISOString();
+    db.recordToolCall({ ts: now, model: "kimi", tool: "edit", success: true, durationMs: 100 });
+    db.recordToolCall({ ts: now, model: "kimi", tool: "edit", success: false, durationMs: 50 });
+    db.recordToolCall({ ts: now, model: "kimi", tool: "edit", success: true, durationMs: 30, afterCorrection: true });
+
+    const [row] = db.getToolCallHourlyStats(1);
+    expect(row.call_count).toBe(3);
+    expect(row.error_count).toBe(1);
+    expect(row.total_duration_ms).toBe(180);
+    expect(row.corrected_count).toBe(1);
+    expect(row.corrected_success_count).toBe(1);
+
+    expect(db.getToolCallDurations(1).map((r: any) => r.duration_ms)).toEqual([30, 50, 100]);
+    expect(db.getToolCallDailyStats(1)[0].call_count).toBe(3);
+  });
+});
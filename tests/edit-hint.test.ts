@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildEditHint, findNearestSnippet, formatSnippet } from "../src/edit-hint.js";
+
+const FILE = [
+  "export function greet(user) {",
+  "  if (user) {",
+  "    return `Hello, ${user.name}!`;",
+  "  }",
+  "  return 'Hello!';",
+  "}",
+].join("\n");
+
+describe("findNearestSnippet", () => {
+  it("finds text that differs only in whitespace", () => {
+    const match = findNearestSnippet(FILE, "if (user) {\n  return `Hello, ${user.name}!`;\n}");
+    expect(match).toMatchObject({ startLine: 2, endLine: 4, score: 1 });
+  });
+
+  it("finds the closest region for slightly wrong text", () => {
+    const match = findNearestSnippet(FILE, "    return `Hi, ${user.name}!`;");
+    expect(match?.startLine).toBe(3);
+    expect(match!.score).toBeLessThan(1);
+  });
+
+  it("stays fast on a large file with a long needle", () => {
+    const lines = Array.from({ length: 4000 }, (_, i) => `  const value${i} = compute(input${i % 97}, "${"x".repeat(i % 13)}");`);
+    const needle = lines.slice(2500, 2540).join("\n").replace("value2520", "valeu2520");
+    const started = Date.now();
+    const match = findNearestSnippet(lines.join("\n"), needle);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(match?.startLine).toBe(2501);
+  });
+
+  it("skips needles too large to search for", () => {
+    expect(findNearestSnippet(FILE, "return 'Hello!';\n".repeat(1000))).toBeNull();
+  });
+
+  it("returns null when nothing is similar", () => {
+    expect(findNearestSnippet(FILE, "SELECT * FROM accounts WHERE id = 42")).toBeNull();
+    expect(findNearestSnippet(FILE, "   ")).toBeNull();
+  });
+});
+
+describe("formatSnippet", () => {
+  it("prefixes right-aligned line numbers", () => {
+    expect(formatSnippet({ startLine: 9, endLine: 10, lines: ["a", "b"], score: 1 })).toBe(" 9 | a\n10 | b");
+  });
+});
+
+describe("buildEditHint", () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "tg-edit-"));
+    writeFileSync(join(dir, "greet.js"), FILE);
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("reads the file relative to the base dir and names the lines", () => {
+    const hint = buildEditHint({ path: "greet.js", old_string: "return 'Hello!' ;" }, dir);
+    expect(hint).toContain("line 5 of greet.js matches except for whitespace");
+    expect(hint).toContain("5 |   return 'Hello!';");
+  });
+
+  it("accepts aliased params and absolute paths inside the workspace", () => {
+    expect(buildEditHint({ file_path: join(dir, "greet.js"), oldText: "return 'Hello!' ;" }, dir)).not.toBeNull();
+  });
+
+  it("returns null when the file can't be read", () => {
+    expect(buildEditHint({ path: join(dir, "missing.js"), old_string: "x" }, dir)).toBeNull();
+    expect(buildEditHint({ path: "greet.js" }, dir)).toBeNull();
+  });
+
+  it("never reads outside the workspace", () => {
+    const workspace = join(dir, "workspace");
+    mkdirSync(workspace, { recursive: true });
+    symlinkSync(join(dir, "greet.js"), join(workspace, "link.js"));
+    const args = { old_string: "return 'Hello!' ;" };
+
+    expect(buildEditHint({ ...args, path: "greet.js" })).toBeNull();
+    expect(buildEditHint({ ...args, path: join(dir, "greet.js") }, workspace)).toBeNull();
+    expect(buildEditHint({ ...args, path: "../greet.js" }, workspace)).toBeNull();
+    expect(buildEditHint({ ...args, path: "~/.bashrc" }, workspace)).toBeNull();
+    expect(buildEditHint({ ...args, path: "link.js" }, workspace)).toBeNull();
+  });
+});
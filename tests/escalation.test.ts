@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { compileEscalation, defaultLadder, selectLadder, selectStage } from "../src/escalation.js";
+
+describe("defaultLadder", () => {
+  it("encodes the configured loop and hard-cap limits", () => {
+    expect(defaultLadder({ maxIdenticalFailures: 3, maxFailuresPerTurn: 7, blockAllToolsAfterCap: true })).toEqual([
+      { action: "corrective" },
+      { action: "loop-detected", identical: 3 },
+      { action: "block-tools", turnFailures: 7, allTools: true },
+    ]);
+  });
+});
+
+describe("selectStage", () => {
+  const ladder = [
+    { action: "corrective" as const },
+    { action: "corrective-example" as const, identical: 2 },
+    { action: "loop-detected" as const, identical: 3 },
+    { action: "abort-turn" as const, turnFailures: 4 },
+  ];
+
+  it("picks the highest stage whose threshold is reached", () => {
+    expect(selectStage(ladder, { identical: 1, turnFailures: 1 })).toMatchObject({ stage: 1, action: "corrective" });
+    expect(selectStage(ladder, { identical: 2, turnFailures: 2 })).toMatchObject({ stage: 2, action: "corrective-example" });
+    expect(selectStage(ladder, { identical: 3, turnFailures: 3 })).toMatchObject({ stage: 3, action: "loop-detected" });
+    expect(selectStage(ladder, { identical: 1, turnFailures: 4 })).toMatchObject({ stage: 4, action: "abort-turn" });
+  });
+});
+
+describe("compileEscalation", () => {
+  it("falls back to the default ladder without config", () => {
+    const compiled = compileEscalation(undefined, { maxIdenticalFailures: 4 });
+    expect(compiled.default[1]).toEqual({ action: "loop-detected", identical: 4 });
+    expect(compiled.errors).toEqual([]);
+  });
+
+  it("prepends a corrective stage when the first stage has a threshold", () => {
+    const compiled = compileEscalation({ default: [{ action: "loop-detected", identical: 2 }] });
+    expect(compiled.default.map((s) => s.action)).toEqual(["corrective", "loop-detected"]);
+  });
+
+  it("skips invalid ladders and reports them", () => {
+    const compiled = compileEscalation({
+      default: [{ action: "explode" as any }],
+      tools: { exec: [{ action: "loop-detected", identical: 0 }], read: [] },
+    });
+    expect(compiled.default).toEqual(defaultLadder());
+    expect(compiled.tools).toEqual({});
+    expect(compiled.errors).toHaveLength(3);
+    expect(compiled.errors[0]).toContain("default[0]");
+  });
+
+  it("selects tool ladders over model ladders over the default", () => {
+    const compiled = compileEscalation({
+      tools: { exec: [{ action: "abort-turn" }] },
+      models: { "kimi-k2p5": [{ action: "loop-detected" }] },
+    });
+    expect(selectLadder(compiled, "exec", "kimi-k2p5")[0].action).toBe("abort-turn");
+    expect(selectLadder(compiled, "read", "kimi-k2p5")[0].action).toBe("loop-detected");
+    expect(selectLadder(compiled, "read", "other")).toBe(compiled.default);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { fingerprintArgs, hashText, similarFingerprints, similarity } from "../src/fingerprint.js";
+
+describe("fingerprintArgs", () => {
+  it("maps aliases to canonical names and sorts keys", () => {
+    const fp = fingerprintArgs({ oldText: "a", file_path: "/x", newText: "b" });
+    expect(Object.keys(fp)).toEqual(["new_string", "old_string", "path"]);
+    expect(fp).toEqual({ path: "/x", old_string: "a", new_string: "b" });
+  });
+
+  it("collapses whitespace and drops null values", () => {
+    expect(fingerprintArgs({ command: "  ls   -la \n", cwd: null })).toEqual({ command: "ls -la" });
+  });
+
+  it("returns an empty fingerprint for non-object args", () => {
+    expect(fingerprintArgs(undefined)).toEqual({});
+    expect(fingerprintArgs(["a"])).toEqual({});
+  });
+});
+
+describe("similarity", () => {
+  it("is 1 for identical strings and 0 for disjoint ones", () => {
+    expect(similarity("hello", "hello")).toBe(1);
+    expect(similarity("abc", "xyz")).toBe(0);
+  });
+
+  it("scores small edits close to 1", () => {
+    expect(similarity("const value = computeTotal(items);", "const value = computeTotal(items)")).toBeGreaterThan(0.9);
+  });
+});
+
+describe("similarFingerprints", () => {
+  it("requires the same keys", () => {
+    expect(similarFingerprints({ path: "/a" }, { path: "/a", limit: 1 }, 0.9)).toBe(false);
+  });
+
+  it("compares non-string values exactly", () => {
+    expect(similarFingerprints({ limit: 10 }, { limit: 11 }, 0.5)).toBe(false);
+  });
+
+  it("accepts near-identical strings above the threshold", () => {
+    const a = fingerprintArgs({ path: "/src/app.ts", old_string: "const total = items.reduce((sum, item) => sum + item.price, 0);" });
+    const b = fingerprintArgs({ file_path: "/src/app.ts", oldText: "const total = items.reduce((sum, item) => sum + item.price, 0) ;" });
+    expect(similarFingerprints(a, b, 0.9)).toBe(true);
+    expect(similarFingerprints(a, b, 1)).toBe(false);
+  });
+
+  it("compares paths, commands and short strings exactly", () => {
+    const card = fingerprintArgs({ path: "src/components/UserProfileCard.tsx" });
+    const cart = fingerprintArgs({ file_path: " src/components/UserProfileCart.tsx" });
+    expect(similarFingerprints(card, cart, 0.9)).toBe(false);
+    expect(similarFingerprints(card, fingerprintArgs({ file_path: "src/components/UserProfileCard.tsx " }), 0.9)).toBe(true);
+
+    const build = fingerprintArgs({ command: "npm run build --workspace packages/server-api" });
+    const test = fingerprintArgs({ command: "npm run build --workspace packages/server-app" });
+    expect(similarFingerprints(build, test, 0.9)).toBe(false);
+
+    expect(similarFingerprints({ old_string: "return total;" }, { old_string: "return totals;" }, 0.5)).toBe(false);
+  });
+});
+
+describe("hashText", () => {
+  it("is stable for equal text and differs for changed text", () => {
+    expect(hashText("abc")).toBe(hashText("abc"));
+    expect(hashText("abc")).not.toBe(hashText("abd"));
+    expect(hashText("abc")).toHaveLength(16);
+  });
+});
@@ -1,20 +1,29 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { ToolGuardLogger } from "../src/logger.js";
-import { readFileSync, rmSync } from "node:fs";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
+/** The plugin's logger writes on the next tick with `logWriter.flushMs: 0`; wait for the batch to land */
+async function waitForLog(logPath: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (existsSync(logPath) && readFileSync(logPath, "utf-8").endsWith("\n")) return;
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
 describe("ToolGuardLogger", () => {
   it("writes a JSON line to the log file", async () => {
     const logPath = join(tmpdir(), `tool-guard-test-${Date.now()}.log`);
     const logger = new ToolGuardLogger(logPath);
-    await logger.log({
+    logger.log({
       modelId: "fireworks/openai-compat",
       toolName: "read",
       args: {},
       errorType: "non-retryable",
       errorMessage: "Missing required parameter: path",
     });
+    await logger.flush();
     const content = readFileSync(logPath, "utf-8").trim();
     const entry = JSON.parse(content);
     expect(entry.modelId).toBe("fireworks/openai-compat");
@@ -23,6 +32,26 @@ describe("ToolGuardLogger", () => {
     rmSync(logPath, { force: true });
   });
 
+  it("redacts args and messages and keeps a hash of the raw args", async () => {
+    const logPath = join(tmpdir(), `tool-guard-redact-${Date.now()}.log`);
+    const logger = new ToolGuardLogger(logPath);
+    logger.log({
+      modelId: "kimi",
+      toolName: "exec",
+      args: { command: "GITHUB_TOKEN=ghp_abc deploy.sh", token: "t" },
+      errorType: "non-retryable",
+      errorMessage: "deploy failed for ops@example.com",
+      message: "[TOOL ERROR] exec() failed. You sent: exec({\"token\":\"t\"})",
+    });
+    await logger.flush();
+    const entry = JSON.parse(readFileSync(logPath, "utf-8").trim());
+    expect(entry.args).toEqual({ command: "GITHUB_TOKEN=[REDACTED] deploy.sh", token: "[REDACTED]" });
+    expect(entry.errorMessage).toBe("deploy failed for [EMAIL]");
+    expect(entry.message).toContain('{"token":"[REDACTED]"}');
+    expect(entry.argsHash).toMatch(/^[0-9a-f]{16}$/);
+    rmSync(logPath, { force: true });
+  });
+
   it("expands ~ in default log path", () => {
     const logger = new ToolGuardLogger();
     expect(logger.getLogPath()).not.toContain("~");
@@ -68,6 +97,19 @@ describe("plugin entry point", () => {
     expect(() => mod.default(api)).not.toThrow();
   });
 
+  it("logs how many tool schemas the host provided at startup", async () => {
+    const mod = await import("../index.js");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const tools = [{ name: "web_search", parameters: { type: "object", required: ["query"], properties: { query: { type: "string" } } } }];
+    const base = { pluginConfig: {}, registerHook: () => {}, on: () => {} };
+
+    mod.default({ ...base, runtime: { tools: { list: () => tools } } });
+    mod.default(base);
+    expect(log).toHaveBeenCalledWith("[tool-guard] Loaded 1 tool schemas from the host");
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("[tool-guard] No host tool definitions at startup"));
+    log.mockRestore();
+  });
+
   it("registers tool_result_persist and before_agent_start hooks", async () => {
     const mod = await import("../index.js");
     const hooks: Record<string, Function> = {};
@@ -165,7 +207,7 @@ describe("plugin entry point", () => {
     const hooks: Record<string, Function> = {};
     const logPath = join(tmpdir(), `tg-attr-${Date.now()}.log`);
     const api = {
-      pluginConfig: { logPath },
+      pluginConfig: { logWriter: { flushMs: 0 }, logPath },
       registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
       on: (name: string, handler: Function) => { hooks[name] = handler; },
     };
@@ -177,8 +219,7 @@ describe("plugin entry point", () => {
     };
     const ctx = { toolName: "read", toolCallId: "call_fireworks_123" };
     await hooks["tool_result_persist"](event, ctx);
-    // Give async logger a moment
-    await new Promise((r) => setTimeout(r, 100));
+    await waitForLog(logPath);
     const content = readFileSync(logPath, "utf-8").trim();
     const entry = JSON.parse(content);
     expect(entry.modelId).toBe("fireworks/openai-compat");
@@ -186,6 +227,293 @@ describe("plugin entry point", () => {
     rmSync(logPath, { force: true });
   });
 
+  it("keeps loop counters separate per session", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-sess-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const makeEvent = () => ({
+      toolName: "read",
+      toolCallId: "call_abc",
+      message: { role: "tool", content: "Error: Missing required parameter: path" },
+    });
+    const ctxA = { toolName: "read", toolCallId: "call_abc", sessionKey: "a" };
+    const ctxB = { toolName: "read", toolCallId: "call_abc", sessionKey: "b" };
+
+    await hooks["tool_result_persist"](makeEvent(), ctxA);
+    const rb = await hooks["tool_result_persist"](makeEvent(), ctxB);
+    expect(rb.message.content).not.toContain("[LOOP DETECTED]");
+
+    // A new turn in session B must not reset session A
+    hooks["before_agent_start"]({}, { sessionKey: "b" });
+    const ra = await hooks["tool_result_persist"](makeEvent(), ctxA);
+    expect(ra.message.content).toContain("[LOOP DETECTED]");
+  });
+
+  it("before_tool_call repairs aliased params", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-alias-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    const result = hooks["before_tool_call"]({ toolName: "read", params: { file_path: "/foo" } }, { toolName: "read" });
+    expect(result).toEqual({ params: { path: "/foo" } });
+  });
+
+  it("before_tool_call blocks calls missing required params", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-block-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    const ctx = { toolName: "read", sessionKey: "s1" };
+    const r1 = hooks["before_tool_call"]({ toolName: "read", params: {} }, ctx);
+    expect(r1.block).toBe(true);
+    expect(r1.blockReason).toContain("[TOOL ERROR]");
+    expect(r1.blockReason).toContain("'path'");
+
+    const r2 = hooks["before_tool_call"]({ toolName: "read", params: {} }, ctx);
+    expect(r2.blockReason).toContain("[LOOP DETECTED]");
+
+    // The blocked result must not be counted a second time on persist
+    const persisted = hooks["tool_result_persist"](
+      { toolName: "read", message: { role: "tool", content: r2.blockReason } },
+      ctx,
+    );
+    expect(persisted).toBeUndefined();
+  });
+
+  it("repairs malformed JSON arguments and blocks truncated ones", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const logPath = join(tmpdir(), `tg-json-${Date.now()}.log`);
+    const api = {
+      pluginConfig: { logWriter: { flushMs: 0 }, logPath },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const repaired = hooks["before_tool_call"]({ toolName: "read", params: "{'file_path': '/a.ts',}" }, {});
+    expect(repaired).toEqual({ params: { path: "/a.ts" } });
+
+    // Well-formed strings still reach the tool as objects
+    expect(hooks["before_tool_call"]({ toolName: "read", params: '{"path":"a.ts"}' }, {})).toEqual({ params: { path: "a.ts" } });
+
+    const blocked = hooks["before_tool_call"]({ toolName: "write", params: '{"path": "/a.ts", "content": "abc' }, {});
+    expect(blocked.block).toBe(true);
+    expect(blocked.blockReason).toContain("write() arguments were not valid JSON: Unterminated string in JSON at position");
+    expect(blocked.blockReason).toContain("appear to be truncated");
+
+    await waitForLog(logPath);
+    const entries = readFileSync(logPath, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(entries[0]).toMatchObject({ errorType: "repaired", action: "repaired", category: "malformed-json" });
+    expect(entries[0].errorMessage).toContain("single-quotes, trailing-comma");
+    expect(entries[1]).toMatchObject({ category: "malformed-json", action: "corrective" });
+    rmSync(logPath, { force: true });
+  });
+
+  it("skips argument validation when validateBeforeCall is false", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { validateBeforeCall: false },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    expect(hooks["before_tool_call"]({ toolName: "read", params: {} }, { toolName: "read" })).toBeUndefined();
+  });
+
+  it("blocks further calls to failing tools after the hard cap until the next turn", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-enforce-${Date.now()}.log`), maxFailuresPerTurn: 2 },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    const ctx = { toolName: "exec", sessionKey: "s1" };
+    for (let i = 0; i < 2; i++) {
+      hooks["tool_result_persist"](
+        { toolName: "exec", message: { role: "tool", content: `Error: Missing required parameter: arg${i}` } },
+        ctx,
+      );
+    }
+
+    const blocked = hooks["before_tool_call"]({ toolName: "exec", params: { command: "ls" } }, ctx);
+    expect(blocked.block).toBe(true);
+    expect(blocked.blockReason).toContain("[TOOL ERROR LIMIT]");
+    expect(hooks["before_tool_call"]({ toolName: "read", params: { path: "a" } }, ctx)).toBeUndefined();
+
+    hooks["before_agent_start"]({}, { sessionKey: "s1" });
+    expect(hooks["before_tool_call"]({ toolName: "exec", params: { command: "ls" } }, ctx)).toBeUndefined();
+  });
+
+  it("counts calls blocked by the hard cap toward the tool-call totals", async () => {
+    const mod = await import("../index.js");
+    const { MetricsDatabase } = await import("../src/database.js");
+    const hooks: Record<string, Function> = {};
+    const services: Record<string, any> = {};
+    const dir = mkdtempSync(join(tmpdir(), "tg-cap-metrics-"));
+    const dbPath = join(dir, "metrics.db");
+    const api = {
+      pluginConfig: { logPath: join(dir, "guard.log"), maxFailuresPerTurn: 2, metrics: { dbPath, dashboard: { enabled: false } } },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+      registerService: (service: any) => { services[service.id] = service; },
+    };
+    mod.default(api);
+    await services["metrics"].start();
+
+    const ctx = { toolName: "exec", sessionKey: "s1" };
+    for (let i = 0; i < 2; i++) {
+      hooks["tool_result_persist"](
+        { toolName: "exec", message: { role: "tool", content: `Error: Missing required parameter: arg${i}` } },
+        ctx,
+      );
+    }
+    expect(hooks["before_tool_call"]({ toolName: "exec", params: { command: "ls" } }, ctx).block).toBe(true);
+    // The other blocked path: refused for a missing param
+    expect(hooks["before_tool_call"]({ toolName: "read", params: {} }, ctx).block).toBe(true);
+    await services["metrics"].stop();
+
+    const db = new MetricsDatabase(dbPath);
+    const calls = db.getToolCallHourlyStats(1).map((r: any) => [r.tool, r.call_count, r.error_count]);
+    expect(calls).toEqual(expect.arrayContaining([["exec", 1, 1], ["read", 1, 1]]));
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stamps log entries with the session's active model", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const logPath = join(tmpdir(), `tg-model-${Date.now()}.log`);
+    const api = {
+      pluginConfig: { logWriter: { flushMs: 0 }, logPath },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    hooks["before_agent_start"]({}, { sessionKey: "s1", provider: "fireworks", model: "kimi-k2p5" });
+    const event = {
+      toolName: "read",
+      toolCallId: "call_abc",
+      message: { role: "tool", content: "Error: Missing required parameter: path" },
+    };
+    await hooks["tool_result_persist"](event, { toolName: "read", toolCallId: "call_abc", sessionKey: "s1" });
+    await waitForLog(logPath);
+    const entry = JSON.parse(readFileSync(logPath, "utf-8").trim());
+    expect(entry.provider).toBe("fireworks");
+    expect(entry.modelId).toBe("kimi-k2p5");
+    expect(entry.stage).toBe(1);
+    expect(entry.action).toBe("corrective");
+    rmSync(logPath, { force: true });
+  });
+
+  it("applies the profile matching each session's model", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: {
+        logPath: join(tmpdir(), `tg-profile-${Date.now()}.log`),
+        profiles: [{ provider: "anthropic", verbosity: "minimal", maxIdenticalFailures: 5 }],
+      },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    hooks["before_agent_start"]({}, { sessionKey: "claude", provider: "anthropic", model: "claude-sonnet" });
+    hooks["before_agent_start"]({}, { sessionKey: "kimi", provider: "fireworks", model: "kimi-k2p5" });
+
+    const fail = (sessionKey: string) => hooks["before_tool_call"]({ toolName: "read", params: {} }, { sessionKey });
+
+    expect(fail("claude").blockReason).toBe("[TOOL ERROR] read() failed: Missing required parameter: path");
+    expect(fail("claude").blockReason).not.toContain("[LOOP DETECTED]");
+    expect(fail("kimi").blockReason).toContain("Correct usage:");
+    expect(fail("kimi").blockReason).toContain("[LOOP DETECTED]");
+  });
+
+  it("shows a past successful call at a corrective-example stage", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: {
+        logPath: join(tmpdir(), `tg-example-${Date.now()}.log`),
+        escalation: {
+          default: [
+            { action: "corrective" },
+            { action: "corrective-example", identical: 2 },
+            { action: "abort-turn", identical: 3 },
+          ],
+        },
+      },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const ctx = { sessionKey: "s1" };
+    hooks["before_tool_call"]({ toolName: "read", params: { path: "/ok.ts" }, toolCallId: "r0" }, ctx);
+    hooks["tool_result_persist"]({ toolName: "read", toolCallId: "r0", message: { role: "tool", content: "contents" } }, ctx);
+
+    const fail = (id: string) => {
+      hooks["before_tool_call"]({ toolName: "read", params: { path: "/missing.ts" }, toolCallId: id }, ctx);
+      return hooks["tool_result_persist"](
+        { toolName: "read", toolCallId: id, message: { role: "tool", content: "Expected file to exist: ENOENT /missing.ts" } },
+        ctx,
+      );
+    };
+    expect(fail("r1").message.content).not.toContain("succeeded earlier");
+    expect(fail("r2").message.content).toContain('succeeded earlier in this session: read({"path":"/ok.ts"})');
+    expect(fail("r3").message.content).toContain("[TURN ABORTED]");
+
+    const blocked = hooks["before_tool_call"]({ toolName: "write", params: { path: "/x", content: "" } }, ctx);
+    expect(blocked.blockReason).toContain("[TURN ABORTED]");
+  });
+
+  it("shows the example verbatim and leaves out oversized ones", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: {
+        logPath: join(tmpdir(), `tg-example-size-${Date.now()}.log`),
+        escalation: { default: [{ action: "corrective-example" }] },
+      },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const correctiveAfter = (sessionKey: string, content: string) => {
+      const ctx = { sessionKey };
+      hooks["before_tool_call"]({ toolName: "write", params: { path: "/ok.txt", content }, toolCallId: "w0" }, ctx);
+      hooks["tool_result_persist"]({ toolName: "write", toolCallId: "w0", message: { role: "tool", content: "ok" } }, ctx);
+      hooks["before_tool_call"]({ toolName: "write", params: { path: "/ro/x.txt", content }, toolCallId: "w1" }, ctx);
+      return hooks["tool_result_persist"](
+        { toolName: "write", toolCallId: "w1", message: { role: "tool", content: "Expected a writable path: EACCES /ro/x.txt" } },
+        ctx,
+      ).message.content as string;
+    };
+
+    expect(correctiveAfter("small", "contact ops@example.com")).toContain(
+      'succeeded earlier in this session: write({"path":"/ok.txt","content":"contact ops@example.com"})',
+    );
+    expect(correctiveAfter("large", "x".repeat(2000))).not.toContain("succeeded earlier");
+  });
+
   it("passes through retryable errors unchanged", async () => {
     const mod = await import("../index.js");
     const hooks: Record<string, Function> = {};
@@ -207,6 +535,192 @@ describe("plugin entry point", () => {
     expect(result).toBeUndefined(); // retryable errors pass through
   });
 
+  it("intervenes when a successful read alternates with a failing edit", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { maxIdenticalFailures: 10, logPath: join(tmpdir(), `tg-cycle-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const ctx = { sessionKey: "s1" };
+    const editParams = { path: "/src/app.ts", old_string: "a", new_string: "b" };
+    const results: any[] = [];
+    for (let i = 0; i < 2; i++) {
+      hooks["before_tool_call"]({ toolName: "read", params: { path: "/src/app.ts" }, toolCallId: `r${i}` }, ctx);
+      hooks["tool_result_persist"](
+        { toolName: "read", toolCallId: `r${i}`, message: { role: "tool", content: "file contents" } },
+        ctx,
+      );
+      hooks["before_tool_call"]({ toolName: "edit", params: editParams, toolCallId: `e${i}` }, ctx);
+      results.push(hooks["tool_result_persist"](
+        { toolName: "edit", toolCallId: `e${i}`, message: { role: "tool", content: "Expected old_string to match, but could not find the exact text in /src/app.ts" } },
+        ctx,
+      ));
+    }
+
+    expect(results[0].message.content).toContain("[TOOL ERROR]");
+    expect(results[1].message.content).toContain("[CYCLE DETECTED]");
+    expect(results[1].message.content).toContain('read(path: "/src/app.ts") → edit(');
+  });
+
+  it("appends a note to repeated identical successful reads", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-repeat-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const ctx = { sessionKey: "s1" };
+    const results: any[] = [];
+    for (let i = 0; i < 3; i++) {
+      hooks["before_tool_call"]({ toolName: "read", params: { path: "/src/app.ts" }, toolCallId: `r${i}` }, ctx);
+      results.push(hooks["tool_result_persist"](
+        { toolName: "read", toolCallId: `r${i}`, message: { role: "tool", content: [{ type: "text", text: "file contents" }] } },
+        ctx,
+      ));
+    }
+
+    expect(results[0]).toBeUndefined();
+    expect(results[1]).toBeUndefined();
+    expect(results[2].message.content).toEqual([
+      { type: "text", text: "file contents" },
+      { type: "text", text: expect.stringContaining("[TOOL NOTE] You already read this file 3 times") },
+    ]);
+  });
+
+  it.each([true, false])("shows the closest file lines when an edit's old_string is not found (validateBeforeCall: %s)", async (validateBeforeCall) => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const dir = mkdtempSync(join(tmpdir(), "tg-edit-int-"));
+    writeFileSync(join(dir, "app.ts"), "const a = 1;\nif (a) {\n  run(a);\n}\n");
+    const api = {
+      pluginConfig: { logPath: join(dir, "guard.log"), validateBeforeCall },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const ctx = { sessionKey: "s1", workspaceDir: dir };
+    hooks["before_tool_call"]({
+      toolName: "edit",
+      toolCallId: "e1",
+      params: { path: "app.ts", old_string: "if (a) {\n    run(a);\n}", new_string: "" },
+    }, ctx);
+    const result = hooks["tool_result_persist"]({
+      toolName: "edit",
+      toolCallId: "e1",
+      message: { role: "tool", content: "Expected to find old_string: Could not find the exact text in app.ts" },
+    }, ctx);
+
+    expect(result.message.content).toContain("The text at lines 2-4 of app.ts matches except for whitespace:");
+    expect(result.message.content).toContain("3 |   run(a);");
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("only logs would-be interventions in shadow mode", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const logPath = join(tmpdir(), `tg-shadow-${Date.now()}.log`);
+    const api = {
+      pluginConfig: { logWriter: { flushMs: 0 }, logPath, mode: "shadow" },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+
+    const ctx = { sessionKey: "s1" };
+    // Would be blocked for the missing param; its real error is logged but not re-counted
+    expect(hooks["before_tool_call"]({ toolName: "read", params: {}, toolCallId: "r1" }, ctx)).toBeUndefined();
+    expect(hooks["tool_result_persist"](
+      { toolName: "read", toolCallId: "r1", message: { role: "tool", content: "Missing required parameter: path" } },
+      ctx,
+    )).toBeUndefined();
+    expect(hooks["before_tool_call"]({ toolName: "read", params: {}, toolCallId: "r2" }, ctx)).toBeUndefined();
+    // Alias repair is not applied either
+    expect(hooks["before_tool_call"]({ toolName: "read", params: { file_path: "/a" }, toolCallId: "r3" }, ctx)).toBeUndefined();
+
+    await waitForLog(logPath);
+    const entries = readFileSync(logPath, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toMatchObject({ shadow: true, stage: 1, action: "corrective" });
+    expect(entries[0].message).toContain("[TOOL ERROR] read() requires 'path'");
+    // The real result is logged for comparison, not tracked again
+    expect(entries[1]).toMatchObject({ toolCallId: "r1", shadow: true, action: "passed", wouldHave: "blocked" });
+    expect(entries[2]).toMatchObject({ shadow: true, stage: 2, action: "loop-detected" });
+    expect(entries[2].message).toContain("[LOOP DETECTED]");
+    rmSync(logPath, { force: true });
+  });
+
+  it("logs and persists the real outcome of calls shadow mode would have refused", async () => {
+    const mod = await import("../index.js");
+    const { MetricsDatabase } = await import("../src/database.js");
+    const hooks: Record<string, Function> = {};
+    const services: Record<string, any> = {};
+    const dir = mkdtempSync(join(tmpdir(), "tg-shadow-metrics-"));
+    const dbPath = join(dir, "metrics.db");
+    const logPath = join(dir, "guard.log");
+    const api = {
+      pluginConfig: { mode: "shadow", maxFailuresPerTurn: 2, logPath, metrics: { dbPath, dashboard: { enabled: false } } },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+      registerService: (service: any) => { services[service.id] = service; },
+    };
+    mod.default(api);
+    await services["metrics"].start();
+    const failedRead = (toolCallId: string) => ({
+      toolName: "read",
+      toolCallId,
+      message: { role: "tool", content: "Missing required parameter: path" },
+    });
+
+    // Past the hard cap, a read that would have been blocked runs and succeeds
+    const capped = { sessionKey: "capped" };
+    hooks["tool_result_persist"](failedRead("r1"), capped);
+    hooks["tool_result_persist"](failedRead("r2"), capped);
+    expect(hooks["before_tool_call"]({ toolName: "read", params: { path: "a.ts" }, toolCallId: "r3" }, capped)).toBeUndefined();
+    expect(hooks["tool_result_persist"](
+      { toolName: "read", toolCallId: "r3", message: { role: "tool", content: "file contents" } },
+      capped,
+    )).toBeUndefined();
+
+    // A would-be missing-param refusal runs and fails for real
+    const refused = { sessionKey: "refused" };
+    expect(hooks["before_tool_call"]({ toolName: "read", params: {}, toolCallId: "r4" }, refused)).toBeUndefined();
+    expect(hooks["tool_result_persist"](failedRead("r4"), refused)).toBeUndefined();
+
+    await services["metrics"].stop();
+    await services["tool-guard"].stop();
+
+    const db = new MetricsDatabase(dbPath);
+    const failures = db.getToolFailures(1);
+    expect(failures.map((f: any) => [f.session_key, f.action])).toEqual(
+      expect.arrayContaining([["capped", "passed"], ["capped", "passed"], ["refused", "passed"]]),
+    );
+    expect(failures).toHaveLength(3);
+    db.close();
+
+    const entries = readFileSync(logPath, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    const r3 = entries.filter((e) => e.toolCallId === "r3");
+    expect(r3).toEqual([
+      expect.objectContaining({ hook: "before_tool_call", action: "blocked", shadow: true }),
+      expect.objectContaining({ hook: "tool_result_persist", errorType: "success", wouldHave: "blocked", shadow: true }),
+    ]);
+    const r4 = entries.filter((e) => e.toolCallId === "r4");
+    expect(r4).toEqual([
+      expect.objectContaining({ hook: "before_tool_call", category: "missing-param", stage: 1, shadow: true }),
+      expect.objectContaining({ hook: "tool_result_persist", category: "missing-param", action: "passed", wouldHave: "blocked" }),
+    ]);
+    // Counted once, in before_tool_call
+    expect(r4[1].stage).toBeUndefined();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
   it("passes through non-error results unchanged", async () => {
     const mod = await import("../index.js");
     const hooks: Record<string, Function> = {};
@@ -226,6 +740,67 @@ describe("plugin entry point", () => {
     expect(result).toBeUndefined();
   });
 
+  it("leaves successful results that mention errors alone and keeps other blocks when rewriting", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-blocks-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+    };
+    mod.default(api);
+    const ctx = { sessionKey: "blocks" };
+
+    const read = hooks["tool_result_persist"](
+      { toolName: "read", toolCallId: "r1", message: { role: "toolResult", content: [{ type: "text", text: "catch (error) { log(error) }" }] } },
+      ctx,
+    );
+    expect(read).toBeUndefined();
+
+    const image = { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" };
+    const failed = hooks["tool_result_persist"](
+      {
+        toolName: "read",
+        toolCallId: "r2",
+        message: { role: "toolResult", isError: true, content: [image, { type: "text", text: "Missing required parameter: path" }] },
+      },
+      ctx,
+    );
+    expect(failed.message.content[0]).toEqual(image);
+    expect(failed.message.content[1].text).toContain("[TOOL ERROR]");
+  });
+
+  it("/toolguard mode switches a single session to shadow or off", async () => {
+    const mod = await import("../index.js");
+    const hooks: Record<string, Function> = {};
+    const commands: Record<string, any> = {};
+    const api = {
+      pluginConfig: { logPath: join(tmpdir(), `tg-command-${Date.now()}.log`) },
+      registerHook: (name: string, handler: Function) => { hooks[name] = handler; },
+      on: (name: string, handler: Function) => { hooks[name] = handler; },
+      registerCommand: (command: any) => { commands[command.name] = command; },
+    };
+    mod.default(api);
+    expect(commands["toolguard"]).toMatchObject({ acceptsArgs: true, requireAuth: true });
+    const toolguard = (args: string, sessionKey: string) =>
+      commands["toolguard"].handler({ isAuthorizedSender: true, args, sessionKey }).text;
+
+    const missing = { toolName: "read", params: {} };
+    expect(hooks["before_tool_call"](missing, { sessionKey: "s-shadow" }).block).toBe(true);
+
+    expect(toolguard("mode shadow", "s-shadow")).toContain("now shadow");
+    expect(hooks["before_tool_call"](missing, { sessionKey: "s-shadow" })).toBeUndefined();
+
+    toolguard("mode off", "s-off");
+    expect(hooks["before_tool_call"](missing, { sessionKey: "s-off" })).toBeUndefined();
+    const failed = { toolName: "read", message: { role: "toolResult", isError: true, content: "Missing required parameter: path" } };
+    expect(hooks["tool_result_persist"](failed, { sessionKey: "s-off" })).toBeUndefined();
+    expect(toolguard("status", "s-off")).toContain("Failures this turn: none");
+
+    // Other sessions keep the configured mode
+    expect(hooks["before_tool_call"](missing, { sessionKey: "s-other" }).block).toBe(true);
+  });
+
   it("does not register hooks when enabled is false", async () => {
     const mod = await import("../index.js");
     const hooks: Record<string, Function> = {};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { parseToolArgs, formatParseError } from "../src/json-repair.js";
+
+describe("parseToolArgs", () => {
+  it("passes objects through untouched", () => {
+    const args = { path: "/a" };
+    expect(parseToolArgs(args)).toEqual({ ok: true, value: args, repairs: [] });
+    expect(parseToolArgs(undefined)).toEqual({ ok: true, value: {}, repairs: [] });
+    expect(parseToolArgs("  ")).toEqual({ ok: true, value: {}, repairs: [] });
+  });
+
+  it("parses valid JSON strings without repairs", () => {
+    expect(parseToolArgs('{"path": "/a"}')).toEqual({ ok: true, value: { path: "/a" }, repairs: [] });
+  });
+
+  it("removes trailing commas", () => {
+    expect(parseToolArgs('{"a": [1, 2,], "b": 1,}')).toEqual({ ok: true, value: { a: [1, 2], b: 1 }, repairs: ["trailing-comma"] });
+  });
+
+  it("converts single-quoted strings", () => {
+    const result = parseToolArgs(`{'command': 'echo "it\\'s"'}`);
+    expect(result).toEqual({ ok: true, value: { command: `echo "it's"` }, repairs: ["single-quotes"] });
+  });
+
+  it("unwraps double-encoded arguments", () => {
+    const raw = JSON.stringify(JSON.stringify({ path: "/a" }));
+    expect(parseToolArgs(raw)).toEqual({ ok: true, value: { path: "/a" }, repairs: ["double-encoded"] });
+  });
+
+  it("treats unclosed brackets as truncation instead of closing them", () => {
+    for (const raw of [
+      '{"command": "sleep", "timeout": 12',
+      '{"path": "a.ts", "content": "hello"',
+      '{"path": "/a", "opts": {"x": 1',
+      "{'path': '/a', 'flags': [true",
+      '{"path": "/a",',
+      '{"path":',
+    ]) {
+      const result = parseToolArgs(raw);
+      expect(result).toMatchObject({ ok: false, truncated: true });
+      if (!result.ok) expect(formatParseError(result)).toContain("appear to be truncated");
+    }
+  });
+
+  it("never completes a truncated string", () => {
+    const result = parseToolArgs('{"path": "/a", "content": "line one\\nline tw');
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.truncated).toBe(true);
+    expect(result.position).toBe(44);
+    expect(formatParseError(result)).toContain("Unterminated string in JSON at position 44 (line 1, column 45)");
+    expect(formatParseError(result)).toContain("appear to be truncated");
+  });
+
+  it("reports the line and column of errors in the middle", () => {
+    const result = parseToolArgs('{\n  "a": 1\n  "b": 2\n}');
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result).toMatchObject({ line: 3, column: 3, truncated: false });
+  });
+
+  it("rejects non-object arguments", () => {
+    expect(parseToolArgs("[1, 2]")).toMatchObject({ ok: false, error: "Arguments must be a JSON object" });
+    expect(parseToolArgs(42)).toMatchObject({ ok: false, error: "Arguments must be a JSON object, got number" });
+  });
+});
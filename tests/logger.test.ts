@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { ToolGuardLogger, iterateLogEntries, listLogFiles, type LogEntry } from "../src/logger.js";
+
+let dir: string;
+let logPath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "tool-guard-logger-"));
+  logPath = join(dir, "tool-guard.log");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function failure(toolName: string) {
+  return { modelId: "kimi", toolName, args: { path: "/a.ts" }, errorType: "non-retryable", errorMessage: "Missing required parameter: path" };
+}
+
+async function readAll(path: string): Promise<LogEntry[]> {
+  const entries: LogEntry[] = [];
+  for await (const entry of iterateLogEntries(path)) entries.push(entry);
+  return entries;
+}
+
+// Each entry is ~230 bytes, so a 1 KB cap rotates every few entries
+const ONE_KB = 1 / 1024;
+
+async function logEach(logger: ToolGuardLogger, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    logger.log(failure(`t${i}`));
+    await logger.flush();
+  }
+}
+
+describe("ToolGuardLogger rotation", () => {
+  it("rolls over into gzip archives and keeps at most maxFiles", async () => {
+    const logger = new ToolGuardLogger(logPath, { rotation: { maxSizeMB: ONE_KB, maxFiles: 2 } });
+    await logEach(logger, 20);
+
+    expect(await listLogFiles(logPath)).toEqual([`${logPath}.2.gz`, `${logPath}.1.gz`, logPath]);
+    expect(existsSync(`${logPath}.3.gz`)).toBe(false);
+    expect(existsSync(`${logPath}.rotating`)).toBe(false);
+    expect(readFileSync(logPath).length).toBeLessThanOrEqual(1024);
+    expect(gunzipSync(readFileSync(`${logPath}.1.gz`)).toString()).toContain('"toolName":"t');
+
+    // The oldest entries were dropped with the third archive; the rest stay in order
+    const names = (await readAll(logPath)).map((e) => e.toolName);
+    expect(names[names.length - 1]).toBe("t19");
+    expect(names).toEqual([...names].sort((a, b) => Number(a.slice(1)) - Number(b.slice(1))));
+    expect(names.length).toBeLessThan(20);
+  });
+
+  it("splits a large batch across rollovers without losing or reordering entries", async () => {
+    const logger = new ToolGuardLogger(logPath, { rotation: { maxSizeMB: ONE_KB, maxFiles: 50 } });
+    for (let i = 0; i < 40; i++) logger.log(failure(`t${i}`));
+    await logger.flush();
+
+    const names = (await readAll(logPath)).map((e) => e.toolName);
+    expect(names).toEqual(Array.from({ length: 40 }, (_, i) => `t${i}`));
+    expect((await listLogFiles(logPath)).length).toBeGreaterThan(5);
+  });
+
+  it("writes plain archives when compression is off", async () => {
+    const logger = new ToolGuardLogger(logPath, { rotation: { maxSizeMB: ONE_KB, compress: false } });
+    await logEach(logger, 6);
+
+    expect(readFileSync(`${logPath}.1`, "utf-8")).toContain('"toolName":"t');
+    expect((await readAll(logPath)).map((e) => e.toolName)).toEqual(["t0", "t1", "t2", "t3", "t4", "t5"]);
+  });
+
+  it("rolls over a file whose first entry is older than maxAgeHours", async () => {
+    const old = { ...failure("old"), timestamp: new Date(Date.now() - 2 * 24 * 3600 * 1000).toISOString() };
+    writeFileSync(logPath, JSON.stringify(old) + "\n");
+
+    const logger = new ToolGuardLogger(logPath, { rotation: { maxAgeHours: 24 } });
+    logger.log(failure("new"));
+    await logger.flush();
+
+    expect(gunzipSync(readFileSync(`${logPath}.1.gz`)).toString()).toContain('"toolName":"old"');
+    expect(readFileSync(logPath, "utf-8")).toContain('"toolName":"new"');
+  });
+
+  it("never rotates with the size cap disabled", async () => {
+    const logger = new ToolGuardLogger(logPath, { rotation: { maxSizeMB: 0 } });
+    await logEach(logger, 10);
+    expect(await listLogFiles(logPath)).toEqual([logPath]);
+  });
+});
+
+describe("ToolGuardLogger buffering", () => {
+  it("holds entries until the flush interval or batch size is reached", async () => {
+    const logger = new ToolGuardLogger(logPath, { writer: { flushMs: 60_000, batchSize: 3 } });
+    logger.log(failure("a"));
+    logger.log(failure("b"));
+    await new Promise((r) => setImmediate(r));
+    expect(existsSync(logPath)).toBe(false);
+    expect(logger.getStats()).toMatchObject({ buffered: 2, written: 0 });
+
+    logger.log(failure("c"));
+    await logger.flush();
+    expect((await readAll(logPath)).map((e) => e.toolName)).toEqual(["a", "b", "c"]);
+    expect(logger.getStats()).toEqual({ written: 3, dropped: 0, deduplicated: 0, buffered: 0 });
+  });
+
+  it("flushes on its own after flushMs", async () => {
+    const logger = new ToolGuardLogger(logPath, { writer: { flushMs: 10 } });
+    logger.log(failure("a"));
+    await new Promise((r) => setTimeout(r, 50));
+    await logger.flush();
+    expect((await readAll(logPath)).map((e) => e.toolName)).toEqual(["a"]);
+  });
+
+  it("drops the after_tool_call copy of a failure already logged for the same call", async () => {
+    const logger = new ToolGuardLogger(logPath);
+    logger.log({ ...failure("read"), toolCallId: "c1", hook: "tool_result_persist", action: "corrective" });
+    logger.log({ ...failure("read"), toolCallId: "c1", hook: "after_tool_call" });
+    // Here the plain copy arrives first and the richer entry replaces it
+    logger.log({ ...failure("edit"), toolCallId: "c2", hook: "after_tool_call" });
+    logger.log({ ...failure("edit"), toolCallId: "c2", hook: "tool_result_persist", action: "loop-detected" });
+    // Without an id there is nothing to match on
+    logger.log({ ...failure("exec"), hook: "after_tool_call" });
+    await logger.flush();
+
+    const entries = await readAll(logPath);
+    expect(entries.map((e) => [e.toolName, e.hook])).toEqual([
+      ["read", "tool_result_persist"],
+      ["edit", "tool_result_persist"],
+      ["exec", "after_tool_call"],
+    ]);
+    expect(logger.getStats().deduplicated).toBe(2);
+  });
+
+  it("counts entries dropped by a full buffer or a failed write", async () => {
+    const logger = new ToolGuardLogger(logPath, { writer: { flushMs: 60_000, maxBuffered: 2 } });
+    for (const name of ["a", "b", "c"]) logger.log(failure(name));
+    expect(logger.getStats()).toMatchObject({ buffered: 2, dropped: 1 });
+
+    // A directory where the log file should be makes the append fail
+    const blocked = new ToolGuardLogger(dir, { writer: { flushMs: 60_000 } });
+    blocked.log(failure("x"));
+    await blocked.flush();
+    expect(blocked.getStats()).toMatchObject({ written: 0, dropped: 1 });
+  });
+
+  it("writes what is left synchronously for process exit", () => {
+    const logger = new ToolGuardLogger(logPath, { writer: { flushMs: 60_000 } });
+    logger.log(failure("a"));
+    logger.flushSync();
+    expect(readFileSync(logPath, "utf-8")).toContain('"toolName":"a"');
+    expect(logger.getStats().written).toBe(1);
+  });
+});
+
+describe("iterateLogEntries", () => {
+  it("skips archives rotated out before since, and unparseable lines", async () => {
+    writeFileSync(`${logPath}.1`, JSON.stringify({ ...failure("archived"), timestamp: "2026-01-01T00:00:00.000Z" }) + "\n");
+    const past = new Date(Date.now() - 2 * 24 * 3600 * 1000);
+    utimesSync(`${logPath}.1`, past, past);
+    writeFileSync(logPath, `${JSON.stringify({ ...failure("live"), timestamp: new Date().toISOString() })}\n{"timestamp":\n`);
+
+    expect((await readAll(logPath)).map((e) => e.toolName)).toEqual(["archived", "live"]);
+
+    const recent: string[] = [];
+    for await (const entry of iterateLogEntries(logPath, { since: new Date(Date.now() - 3600 * 1000) })) recent.push(entry.toolName);
+    expect(recent).toEqual(["live"]);
+  });
+
+  it("yields nothing for a missing log", async () => {
+    expect(await readAll(join(dir, "missing.log"))).toEqual([]);
+  });
+});
@@ -4,6 +4,7 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { MetricsDatabase } from "../src/database.js";
 import { MetricsCollector } from "../src/metrics-collector.js";
+import { compileRedaction, hashArgs } from "../src/redact.js";
 
 function makeDb() {
   const tmpDir = mkdtempSync(join(tmpdir(), "collector-test-"));
@@ -76,4 +77,49 @@ describe("MetricsCollector", () => {
     db.close();
     cleanup();
   });
+
+  it("flushes buffered tool failures stamped with the gateway id", async () => {
+    const { db, cleanup } = makeDb();
+    const collector = new MetricsCollector(db, { gatewayId: "test-gw", bufferMs: 60_000, bufferSize: 100 });
+
+    collector.recordToolFailure({ model: "kimi", tool: "read", category: "missing-param", action: "corrective" });
+    await collector.flush();
+    collector.stop();
+
+    const rows = db.getToolFailures(1);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].gateway_id).toBe("test-gw");
+
+    db.close();
+    cleanup();
+  });
+
+  it("redacts failure args and error text before storing them", async () => {
+    const { db, cleanup } = makeDb();
+    const collector = new MetricsCollector(db, {
+      gatewayId: "test-gw",
+      bufferMs: 60_000,
+      bufferSize: 100,
+      redaction: compileRedaction({ patterns: ["cust_\\d+"] }),
+    });
+    const args = { command: "curl -H 'Authorization: Bearer abcdef123456789' /users/cust_42" };
+
+    collector.recordToolFailure({
+      tool: "exec",
+      category: "unknown",
+      action: "corrective",
+      errorMessage: "401 for OPENAI_API_KEY=sk-live-secret",
+      args,
+    });
+    await collector.flush();
+    collector.stop();
+
+    const [row] = db.getToolFailures(1);
+    expect(JSON.parse(row.args).command).toBe("curl -H 'Authorization: Bearer [REDACTED]' /users/[REDACTED]");
+    expect(row.error_message).toBe("401 for OPENAI_API_KEY=[REDACTED]");
+    expect(row.args_hash).toBe(hashArgs(args));
+
+    db.close();
+    cleanup();
+  });
 });
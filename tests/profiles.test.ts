@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { compileProfiles, globToRegExp, selectProfile } from "../src/profiles.js";
+import { selectLadder } from "../src/escalation.js";
+
+describe("globToRegExp", () => {
+  it("matches * and ? case-insensitively and escapes the rest", () => {
+    expect(globToRegExp("minimax*").test("MiniMax-M2.5")).toBe(true);
+    expect(globToRegExp("gpt-?o").test("gpt-4o")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+});
+
+describe("compileProfiles", () => {
+  const config = {
+    maxIdenticalFailures: 2,
+    maxFailuresPerTurn: 5,
+    profiles: [
+      { name: "claude", provider: "anthropic", verbosity: "minimal" as const, maxFailuresPerTurn: 10 },
+      { name: "minimax", model: "minimax*", maxIdenticalFailures: 1 },
+      { provider: "fireworks", model: "*kimi*", escalation: { default: [{ action: "abort-turn" as const, turnFailures: 2 }] } },
+    ],
+  };
+
+  it("selects the first profile whose globs match", () => {
+    const compiled = compileProfiles(config);
+    expect(selectProfile(compiled, "anthropic", "claude-sonnet").name).toBe("claude");
+    expect(selectProfile(compiled, "minimax", "minimax-m2.5").name).toBe("minimax");
+    expect(selectProfile(compiled, "fireworks", "kimi-k2p5").name).toBe("fireworks/*kimi*");
+    expect(selectProfile(compiled, "fireworks", "llama").name).toBe("default");
+  });
+
+  it("inherits unset limits from the global config", () => {
+    const compiled = compileProfiles(config);
+    const claude = selectLadder(selectProfile(compiled, "anthropic", "claude").escalation, "read");
+    expect(claude[1]).toEqual({ action: "loop-detected", identical: 2 });
+    expect(claude[2]).toMatchObject({ action: "block-tools", turnFailures: 10 });
+
+    const minimax = selectLadder(selectProfile(compiled, "minimax", "minimax-m2.5").escalation, "read");
+    expect(minimax[1]).toEqual({ action: "loop-detected", identical: 1 });
+    expect(minimax[2]).toMatchObject({ action: "block-tools", turnFailures: 5 });
+  });
+
+  it("uses a profile's own escalation ladder", () => {
+    const compiled = compileProfiles(config);
+    const ladder = selectLadder(selectProfile(compiled, "fireworks", "kimi-k2p5").escalation, "read");
+    expect(ladder.map((s) => s.action)).toEqual(["corrective", "abort-turn"]);
+  });
+
+  it("inherits verbosity and reports invalid entries", () => {
+    const compiled = compileProfiles({
+      verbosity: "brief",
+      profiles: [{ name: "nothing" } as any, { model: "x*", verbosity: "loud" as any }],
+    });
+    expect(compiled.errors).toHaveLength(2);
+    expect(compiled.matchers).toHaveLength(1);
+    expect(selectProfile(compiled, "any", "x1").verbosity).toBe("brief");
+    expect(compiled.fallback.verbosity).toBe("brief");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatReplayReport, parseDuration, readLogEntries, replayEntries, replayLog } from "../src/replay.js";
+import type { LogEntry } from "../src/logger.js";
+
+const MISSING = "Missing required parameter: path";
+
+function entry(overrides: Partial<LogEntry> & { at: number }): LogEntry {
+  const { at, ...rest } = overrides;
+  return {
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, at)).toISOString(),
+    sessionKey: "s1",
+    turn: 1,
+    hook: "tool_result_persist",
+    modelId: "minimax-m2.5",
+    toolName: "read",
+    args: {},
+    errorType: "non-retryable",
+    errorMessage: MISSING,
+    ...rest,
+  };
+}
+
+describe("replayEntries", () => {
+  it("counts the actions each config takes and lists the differences", () => {
+    const entries = [entry({ at: 0 }), entry({ at: 1 }), entry({ at: 2 })];
+    const report = replayEntries(entries, { maxIdenticalFailures: 3 }, { maxIdenticalFailures: 2 });
+
+    expect(report).toMatchObject({ entries: 3, sessions: 1, turns: 1 });
+    expect(report.current.byAction).toEqual({ corrective: 1, "loop-detected": 2 });
+    expect(report.candidate.byAction).toEqual({ corrective: 2, "loop-detected": 1 });
+    expect(report.current.loopsBroken).toBe(2);
+    expect(report.differences).toEqual([
+      expect.objectContaining({ sessionKey: "s1", turn: 1, toolName: "read", current: "loop-detected", candidate: "corrective" }),
+    ]);
+  });
+
+  it("starts a fresh tracker for every logged turn", () => {
+    const entries = [entry({ at: 0 }), entry({ at: 1, turn: 2 }), entry({ at: 2, turn: 3 })];
+    const report = replayEntries(entries, {}, {});
+
+    expect(report.turns).toBe(3);
+    expect(report.current.byAction).toEqual({ corrective: 3 });
+    expect(report.differences).toHaveLength(0);
+  });
+
+  it("blocks calls after the cap and counts capped turns", () => {
+    const entries = [0, 1, 2, 3].map((at) => entry({ at, args: { path: `/f${at}` } }));
+    const report = replayEntries(entries, { maxFailuresPerTurn: 2 }, {});
+
+    expect(report.candidate.byAction).toEqual({ corrective: 1, "hard-cap": 1, blocked: 2 });
+    expect(report.candidate.turnsCapped).toBe(1);
+    expect(report.current.turnsCapped).toBe(0);
+  });
+
+  it("applies candidate rules and profiles", () => {
+    const entries = [entry({ at: 0, provider: "minimax" }), entry({ at: 1, provider: "minimax" })];
+    const report = replayEntries(
+      entries,
+      {
+        rules: { patterns: [{ pattern: "Missing required", category: "unknown", action: "pass" }] },
+        profiles: [{ provider: "minimax", maxIdenticalFailures: 1 }],
+      },
+      { profiles: [{ provider: "minimax", maxIdenticalFailures: 1 }] },
+    );
+
+    expect(report.current.byAction).toEqual({ "loop-detected": 2 });
+    expect(report.candidate.byAction).toEqual({ passed: 2 });
+    expect(report.candidate.interventions).toBe(0);
+  });
+
+  it("skips after_tool_call copies, shadow-refused results, non-failures, and entries before since", () => {
+    const entries = [
+      entry({ at: 0 }),
+      entry({ at: 0, hook: "after_tool_call" }),
+      // Real result of a call shadow mode already counted in before_tool_call
+      entry({ at: 0, shadow: true, wouldHave: "blocked" }),
+      entry({ at: 1, errorType: "repaired" }),
+      entry({ at: 2, errorType: "advisory" }),
+    ];
+    expect(replayEntries(entries, {}, {}).entries).toBe(1);
+    expect(replayEntries(entries, {}, {}, { since: new Date(Date.UTC(2026, 0, 1, 12, 0, 1)) }).entries).toBe(0);
+  });
+
+  it("rebuilds turns for legacy entries from the model and time gaps", () => {
+    const legacy = (at: number) => entry({ at, sessionKey: undefined, turn: undefined, hook: undefined });
+    // The second entry is the after_tool_call duplicate of the first
+    const entries = [legacy(0), legacy(1), legacy(10), legacy(50)];
+    const report = replayEntries(entries, {}, {}, { turnGapMs: 30_000 });
+
+    expect(report.entries).toBe(3);
+    expect(report.turns).toBe(2);
+    expect(report.sessions).toBe(1);
+  });
+});
+
+describe("replayLog", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tool-guard-replay-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads JSONL and skips partial lines", async () => {
+    const logPath = join(dir, "tool-guard.log");
+    writeFileSync(logPath, [JSON.stringify(entry({ at: 0 })), '{"timestamp":', JSON.stringify(entry({ at: 1 })), ""].join("\n"));
+
+    expect(await readLogEntries(logPath)).toHaveLength(2);
+    const report = await replayLog(logPath, { maxIdenticalFailures: 5 }, {});
+    expect(report.differences).toHaveLength(1);
+  });
+});
+
+describe("formatReplayReport", () => {
+  it("summarizes both configs side by side", () => {
+    const report = replayEntries([entry({ at: 0 }), entry({ at: 1 })], { maxIdenticalFailures: 3 }, {});
+    const text = formatReplayReport(report);
+
+    expect(text).toContain("Replayed 2 failures in 1 turns across 1 sessions");
+    expect(text).toMatch(/loops broken\s+1\s+0\s+-1/);
+    expect(text).toContain("1 failures handled differently:");
+    expect(text).toContain("read: loop-detected → corrective");
+  });
+});
+
+describe("parseDuration", () => {
+  it("parses minutes, hours, days and weeks", () => {
+    expect(parseDuration("30m")).toBe(30 * 60_000);
+    expect(parseDuration("24h")).toBe(86_400_000);
+    expect(parseDuration("7d")).toBe(7 * 86_400_000);
+    expect(parseDuration("1w")).toBe(604_800_000);
+    expect(parseDuration("soon")).toBeNull();
+  });
+});
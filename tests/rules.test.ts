@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { compileRules, matchRule } from "../src/rules.js";
+import { categorizeError, classifyError, buildCorrectiveMessage } from "../src/classifier.js";
+
+describe("compileRules", () => {
+  it("returns empty rules for missing config", () => {
+    const rules = compileRules(undefined);
+    expect(rules.patterns).toEqual([]);
+    expect(rules.errors).toEqual([]);
+  });
+
+  it("compiles valid pattern rules", () => {
+    const rules = compileRules({
+      patterns: [{ pattern: "selector .* not attached", category: "not-found", action: "correct" }],
+    });
+    expect(rules.patterns).toHaveLength(1);
+    expect(rules.patterns[0].pattern.test("Selector #btn not attached")).toBe(true);
+  });
+
+  it("defaults the action from the category policy", () => {
+    const rules = compileRules({ patterns: [{ pattern: "busy", category: "rate-limit" }] });
+    expect(rules.patterns[0].action).toBe("pass");
+  });
+
+  it("skips invalid entries and reports them", () => {
+    const rules = compileRules({
+      patterns: [
+        { pattern: "(", category: "not-found" },
+        { pattern: "x", category: "bogus" },
+        { pattern: "y", category: "timeout", action: "explode" },
+        { pattern: "z", category: "timeout" },
+      ],
+      templates: { read: "" },
+    });
+    expect(rules.patterns).toHaveLength(1);
+    expect(rules.errors).toHaveLength(4);
+  });
+});
+
+describe("configured rules in the classifier", () => {
+  const rules = compileRules({
+    patterns: [
+      { pattern: "element is detached", category: "not-found", action: "correct", tools: ["browser"] },
+      { pattern: "Missing required parameter: ref", category: "missing-param", action: "pass" },
+    ],
+    templates: {
+      browser: "[TOOL ERROR] {tool}() needs {missing}. Use {usage}. Sent {args}.",
+    },
+  });
+
+  it("matches tool-scoped rules only for that tool", () => {
+    expect(matchRule(rules, "element is detached", "browser")).not.toBeNull();
+    expect(matchRule(rules, "element is detached", "exec")).toBeNull();
+  });
+
+  it("overrides the built-in category and action", () => {
+    expect(categorizeError("element is detached", rules, "browser")).toBe("not-found");
+    expect(classifyError("element is detached", rules, "browser")).toBe("non-retryable");
+    expect(classifyError("Missing required parameter: ref", rules)).toBe("retryable");
+  });
+
+  it("falls back to built-ins when no rule matches", () => {
+    expect(categorizeError("Request timed out", rules)).toBe("timeout");
+  });
+
+  it("renders per-tool templates", () => {
+    const msg = buildCorrectiveMessage("browser", { url: "x" }, "element is detached", undefined, rules);
+    expect(msg).toBe(`[TOOL ERROR] browser() needs valid values for its parameters. Use browser({ ... }). Sent {"url":"x"}.`);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { SchemaRegistry, schemaFromJson } from "../src/schemas.js";
+import { buildCorrectiveMessage } from "../src/classifier.js";
+
+const browserSchema = {
+  type: "object",
+  properties: {
+    action: { anyOf: [{ const: "open" }, { const: "close" }] },
+    url: { type: "string" },
+    timeoutMs: { type: "number" },
+  },
+  required: ["action", "url"],
+};
+
+describe("schemaFromJson", () => {
+  it("derives required params, types and enums", () => {
+    const schema = schemaFromJson("browser", browserSchema)!;
+    expect(schema.required).toEqual(["action", "url"]);
+    expect(schema.params?.action.enum).toEqual(["open", "close"]);
+    expect(schema.params?.url.type).toBe("string");
+  });
+
+  it("generates a usage example from required params", () => {
+    const schema = schemaFromJson("browser", browserSchema)!;
+    expect(schema.usage).toBe('browser({ action: "open" | "close", url: "url" })');
+  });
+
+  it("returns null for non-object schemas", () => {
+    expect(schemaFromJson("x", null)).toBeNull();
+  });
+});
+
+describe("SchemaRegistry", () => {
+  it("is seeded with the built-in schemas", () => {
+    const schemas = new SchemaRegistry();
+    expect(schemas.get("read")?.required).toEqual(["path"]);
+  });
+
+  it("loads host tool definitions", () => {
+    const schemas = new SchemaRegistry();
+    const count = schemas.load([
+      { name: "browser", parameters: browserSchema },
+      { name: "memory_search", inputSchema: { type: "object", properties: { query: { type: "string" } }, required: ["query"] } },
+      { nope: true },
+    ]);
+    expect(count).toBe(2);
+    expect(schemas.has("memory_search")).toBe(true);
+  });
+
+  it("does not let host definitions override built-ins", () => {
+    const schemas = new SchemaRegistry();
+    schemas.load([{ name: "read", parameters: { type: "object", properties: {}, required: [] } }]);
+    expect(schemas.get("read")?.required).toEqual(["path"]);
+  });
+
+  it("drives corrective messages for host tools", () => {
+    const schemas = new SchemaRegistry();
+    schemas.load([{ name: "browser", parameters: browserSchema }]);
+    const msg = buildCorrectiveMessage("browser", { action: "launch" }, "Missing required parameter: url", schemas);
+    expect(msg).toContain("'url'");
+    expect(msg).toContain(`'action' must be one of "open", "close"`);
+    expect(msg).toContain('Correct usage: browser({ action: "open" | "close", url: "url" })');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  SessionRegistry,
+  resolveSessionKey,
+  resolveModelFromContext,
+  attributeModel,
+  rememberArgs,
+  recallArgs,
+  DEFAULT_SESSION_KEY,
+} from "../src/sessions.js";
+
+describe("SessionRegistry", () => {
+  it("returns the same tracker for the same session", () => {
+    const sessions = new SessionRegistry();
+    expect(sessions.get("a").tracker).toBe(sessions.get("a").tracker);
+  });
+
+  it("keeps failure counts separate per session", () => {
+    const sessions = new SessionRegistry();
+    sessions.get("a").tracker.recordFailure("read", {}, "error", "unknown");
+    const result = sessions.get("b").tracker.recordFailure("read", {}, "error", "unknown");
+    expect(result.action).toBe("continue");
+  });
+
+  it("starting a turn only resets that session", () => {
+    const sessions = new SessionRegistry();
+    sessions.get("a").tracker.recordFailure("read", {}, "error", "unknown");
+    sessions.get("b").tracker.recordFailure("read", {}, "error", "unknown");
+
+    sessions.startTurn("b");
+
+    expect(sessions.get("a").tracker.recordFailure("read", {}, "error", "unknown").action).toBe("loop-detected");
+    expect(sessions.get("b").tracker.recordFailure("read", {}, "error", "unknown").action).toBe("continue");
+  });
+
+  it("numbers turns per session", () => {
+    const sessions = new SessionRegistry();
+    sessions.startTurn("a");
+    sessions.startTurn("a");
+    sessions.startTurn("b");
+
+    expect(sessions.get("a").turn).toBe(2);
+    expect(sessions.get("b").turn).toBe(1);
+  });
+
+  it("applies hard cap per session", () => {
+    const sessions = new SessionRegistry({ maxFailuresPerTurn: 3 });
+    for (let i = 0; i < 2; i++) {
+      sessions.get("a").tracker.recordFailure(`tool${i}`, {}, `error${i}`, "unknown");
+      sessions.get("b").tracker.recordFailure(`tool${i}`, {}, `error${i}`, "unknown");
+    }
+    const result = sessions.get("a").tracker.recordFailure("tool2", {}, "error2", "unknown");
+    expect(result.action).toBe("hard-cap");
+  });
+
+  it("evicts idle sessions", () => {
+    const sessions = new SessionRegistry({ sessionIdleMs: 1000 });
+    sessions.get("a", 0);
+    sessions.get("b", 1500);
+    expect(sessions.evictIdle(2000)).toBe(1);
+    expect(sessions.size).toBe(1);
+  });
+
+  it("deletes a session on request", () => {
+    const sessions = new SessionRegistry();
+    sessions.get("a");
+    expect(sessions.delete("a")).toBe(true);
+    expect(sessions.size).toBe(0);
+  });
+
+  it("reset clears the turn without starting a new one, and keeps the mode override", () => {
+    const sessions = new SessionRegistry({ maxFailuresPerTurn: 1 });
+    const state = sessions.startTurn("a");
+    state.mode = "shadow";
+    state.tracker.recordFailure("read", {}, "boom", "unknown");
+    expect(state.tracker.checkBlocked("read")).not.toBeNull();
+
+    sessions.reset("a");
+    expect(state.tracker.checkBlocked("read")).toBeNull();
+    expect(state.turn).toBe(1);
+
+    sessions.startTurn("a");
+    expect(state.mode).toBe("shadow");
+  });
+
+  it("peek does not create sessions; list orders by activity", () => {
+    const sessions = new SessionRegistry();
+    expect(sessions.peek("a")).toBeUndefined();
+    expect(sessions.list()).toEqual([]);
+    expect(sessions.size).toBe(0);
+
+    sessions.get("a", 100);
+    sessions.get("b", 200);
+    expect(sessions.list().map((s) => s.key)).toEqual(["b", "a"]);
+    sessions.get("a", 300);
+    expect(sessions.list().map((s) => s.key)).toEqual(["a", "b"]);
+  });
+});
+
+describe("resolveSessionKey", () => {
+  it("prefers sessionKey over sessionId", () => {
+    expect(resolveSessionKey({ sessionKey: "k", sessionId: "i" })).toBe("k");
+  });
+
+  it("falls back to sessionId", () => {
+    expect(resolveSessionKey({ sessionId: "i" })).toBe("i");
+  });
+
+  it("falls back to the default key without session identity", () => {
+    expect(resolveSessionKey({})).toBe(DEFAULT_SESSION_KEY);
+    expect(resolveSessionKey(undefined)).toBe(DEFAULT_SESSION_KEY);
+  });
+});
+
+describe("model attribution", () => {
+  it("records the active model per session", () => {
+    const sessions = new SessionRegistry();
+    sessions.setModel("a", "fireworks", "kimi-k2p5");
+    sessions.setModel("b", "minimax", "minimax-m2.5");
+    expect(attributeModel(sessions.get("a"), "call_1")).toEqual({ provider: "fireworks", modelId: "kimi-k2p5" });
+    expect(attributeModel(sessions.get("b"), "call_2")).toEqual({ provider: "minimax", modelId: "minimax-m2.5" });
+  });
+
+  it("falls back to the toolCallId prefix when no model is known", () => {
+    const sessions = new SessionRegistry();
+    expect(attributeModel(sessions.get("a"), "toolu_1")).toEqual({ provider: "anthropic", modelId: "anthropic" });
+    expect(attributeModel(undefined, "")).toEqual({ provider: "unknown", modelId: "unknown" });
+  });
+
+  it("reads provider and model from hook context", () => {
+    expect(resolveModelFromContext({ provider: "anthropic", modelId: "claude-sonnet-4-6" })).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-6",
+    });
+    expect(resolveModelFromContext({ model: { id: "not-a-string" } })).toEqual({ provider: undefined, model: undefined });
+  });
+});
+
+describe("recent args", () => {
+  it("recalls params by toolCallId, falling back to the tool's latest call", () => {
+    const sessions = new SessionRegistry();
+    const state = sessions.get("a");
+    rememberArgs(state, "read", "call_1", { path: "/one" });
+    rememberArgs(state, "read", undefined, { path: "/two" });
+
+    expect(recallArgs(state, "read", "call_1")).toEqual({ path: "/one" });
+    expect(recallArgs(state, "read", "call_1")).toEqual({ path: "/two" });
+    expect(recallArgs(state, "write", "call_9")).toEqual({});
+  });
+
+  it("clears remembered params at the start of a turn", () => {
+    const sessions = new SessionRegistry();
+    rememberArgs(sessions.get("a"), "read", "call_1", { path: "/one" });
+    const state = sessions.startTurn("a");
+    expect(recallArgs(state, "read", "call_1")).toEqual({});
+  });
+});
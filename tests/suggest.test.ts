@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { nameSimilarity, suggestName, suggestParams, formatParamSuggestions } from "../src/suggest.js";
+import { TOOL_SCHEMAS } from "../src/constants.js";
+
+describe("suggestName", () => {
+  const tools = ["read", "write", "edit", "exec"];
+
+  it("matches names differing in case or separators", () => {
+    expect(suggestName("Read", tools)).toBe("read");
+    expect(suggestName("EXEC", tools)).toBe("exec");
+  });
+
+  it("matches by token overlap and edit distance", () => {
+    expect(suggestName("file_read", tools)).toBe("read");
+    expect(suggestName("wirte", tools)).toBe("write");
+  });
+
+  it("returns null for exact, unrelated or ambiguous names", () => {
+    expect(suggestName("read", tools)).toBeNull();
+    expect(suggestName("browser", tools)).toBeNull();
+    expect(suggestName("file", ["file_read", "file_write"])).toBeNull();
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("scores contained names and shared tokens", () => {
+    expect(nameSimilarity("filepath", "path")).toBeGreaterThanOrEqual(0.6);
+    expect(nameSimilarity("old", "old_string")).toBeGreaterThanOrEqual(0.6);
+    expect(nameSimilarity("cmd", "content")).toBeLessThan(0.6);
+  });
+});
+
+describe("suggestParams", () => {
+  it("suggests canonical params for misspelled keys", () => {
+    expect(suggestParams({ filepath: "/a" }, TOOL_SCHEMAS.read)).toEqual([{ sent: "filepath", suggestion: "path" }]);
+    expect(suggestParams({ path: "/a", old: "x", new: "y" }, TOOL_SCHEMAS.edit)).toEqual([
+      { sent: "old", suggestion: "old_string" },
+      { sent: "new", suggestion: "new_string" },
+    ]);
+  });
+
+  it("ignores known keys, aliases and params already supplied", () => {
+    expect(suggestParams({ file_path: "/a", oldText: "x", newText: "y" }, TOOL_SCHEMAS.edit)).toEqual([]);
+    expect(suggestParams({ path: "/a", filepath: "/b" }, TOOL_SCHEMAS.read)).toEqual([]);
+  });
+
+  it("formats suggestions as a sentence per key", () => {
+    expect(formatParamSuggestions([{ sent: "filepath", suggestion: "path" }])).toBe(
+      "You sent 'filepath'; did you mean 'path'?",
+    );
+  });
+});
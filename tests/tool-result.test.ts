@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { appendNoteToMessage, detectToolError, rewriteToolError } from "../src/tool-result.js";
+
+const image = { type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" };
+
+describe("detectToolError", () => {
+  it("does not treat text that mentions an error as a failure", () => {
+    const message = { role: "toolResult", content: [{ type: "text", text: "function handle(error) {\n  throw error;\n}" }] };
+    expect(detectToolError(message)).toBeNull();
+  });
+
+  it("trusts the host's error flag over the text", () => {
+    expect(detectToolError({ isError: false, content: "Error: looks bad but succeeded" })).toBeNull();
+    expect(detectToolError({ isError: true, content: [image, { type: "text", text: "disk full" }] })).toEqual({
+      text: "disk full",
+      source: "flag",
+      block: 1,
+    });
+    expect(detectToolError({ is_error: true, content: [] })).toMatchObject({ text: "Tool call failed", block: null });
+  });
+
+  it("reads the error from a JSON envelope", () => {
+    const envelope = JSON.stringify({ status: "error", tool: "read", error: "ENOENT: no such file" });
+    expect(detectToolError({ content: [{ type: "text", text: envelope }] })).toEqual({
+      text: "ENOENT: no such file",
+      source: "envelope",
+      block: 0,
+      envelope: { key: "error", nested: false },
+    });
+    expect(detectToolError({ content: '{"error":{"message":"denied","code":403}}' })).toMatchObject({
+      text: "denied",
+      envelope: { key: "error", nested: true },
+    });
+    expect(detectToolError({ content: "done", details: { status: "error", error: "timed out" } })).toMatchObject({
+      text: "timed out",
+      source: "envelope",
+    });
+  });
+
+  it("ignores JSON results that merely have an error field", () => {
+    const config = JSON.stringify({ name: "app", error: "fallback page", retries: 3 });
+    expect(detectToolError({ content: [{ type: "text", text: config }] })).toBeNull();
+  });
+
+  it("falls back to text that opens with an error", () => {
+    expect(detectToolError({ content: "Error: Missing required parameter: path" })?.source).toBe("text");
+    expect(detectToolError({ content: [{ type: "text", text: "ok" }, { type: "text", text: "TypeError: x is undefined" }] }))
+      .toMatchObject({ block: 1, text: "TypeError: x is undefined" });
+    expect(detectToolError({ content: "Build finished with 0 errors" })).toBeNull();
+  });
+});
+
+describe("rewriteToolError", () => {
+  it("replaces only the error block", () => {
+    const message = { role: "toolResult", isError: true, content: [image, { type: "text", text: "disk full" }, { type: "text", text: "exit 1" }] };
+    const rewritten = rewriteToolError(message, detectToolError(message)!, "[TOOL ERROR] write() failed");
+
+    expect(rewritten.content).toEqual([image, { type: "text", text: "[TOOL ERROR] write() failed" }, { type: "text", text: "exit 1" }]);
+    expect(message.content[1].text).toBe("disk full");
+  });
+
+  it("keeps the envelope's shape", () => {
+    const text = JSON.stringify({ status: "error", tool: "read", error: "ENOENT" });
+    const message = { content: [{ type: "text", text }] };
+    const rewritten = rewriteToolError(message, detectToolError(message)!, "corrected");
+
+    expect(JSON.parse(rewritten.content[0].text)).toEqual({ status: "error", tool: "read", error: "corrected" });
+  });
+
+  it("adds a text block when the error came from details only", () => {
+    const message = { isError: true, content: [image], details: { status: "error", error: "boom" } };
+    const rewritten = rewriteToolError(message, detectToolError(message)!, "corrected");
+
+    expect(rewritten.content).toEqual([{ type: "text", text: "corrected" }, image]);
+  });
+});
+
+describe("appendNoteToMessage", () => {
+  it("appends to string and block content", () => {
+    expect(appendNoteToMessage({ content: "a" }, "note").content).toBe("a\n\nnote");
+    expect(appendNoteToMessage({ content: [image] }, "note").content).toEqual([image, { type: "text", text: "note" }]);
+  });
+});
@@ -49,4 +49,144 @@ describe("ToolGuardTracker", () => {
     const result = tracker.recordFailure("read", {}, "error2", "unknown");
     expect(result.action).toBe("continue");
   });
+
+  it("counts failures toward the hard cap by weight", () => {
+    const tracker = new ToolGuardTracker({ maxFailuresPerTurn: 4 });
+    tracker.recordFailure("read", {}, "error1", "unknown", 2);
+    const result = tracker.recordFailure("read", {}, "error2", "unknown", 2);
+    expect(result.action).toBe("hard-cap");
+    expect(result.message).toContain("2 tool failures");
+  });
+
+  it("blocks tools that failed this turn once the hard cap is hit", () => {
+    const tracker = new ToolGuardTracker({ maxFailuresPerTurn: 2 });
+    tracker.recordFailure("read", {}, "error1", "unknown");
+    expect(tracker.checkBlocked("read")).toBeNull();
+    tracker.recordFailure("edit", {}, "error2", "unknown");
+    expect(tracker.isCapped()).toBe(true);
+    expect(tracker.checkBlocked("read")).toContain("[TOOL ERROR LIMIT]");
+    expect(tracker.checkBlocked("exec")).toBeNull();
+  });
+
+  it("blocks every tool after the cap when blockAllToolsAfterCap is set", () => {
+    const tracker = new ToolGuardTracker({ maxFailuresPerTurn: 1, blockAllToolsAfterCap: true });
+    tracker.recordFailure("read", {}, "error", "unknown");
+    expect(tracker.checkBlocked("exec")).toContain("was not executed");
+  });
+
+  it("lifts the block at the next turn", () => {
+    const tracker = new ToolGuardTracker({ maxFailuresPerTurn: 1 });
+    tracker.recordFailure("read", {}, "error", "unknown");
+    tracker.resetTurn();
+    expect(tracker.checkBlocked("read")).toBeNull();
+  });
+
+  it("counts near-duplicate calls toward the same loop", () => {
+    const tracker = new ToolGuardTracker();
+    tracker.recordFailure("edit", { file_path: "/a.ts", oldText: "foo(bar);" }, "Could not find text", "unknown");
+    const result = tracker.recordFailure("edit", { oldText: "foo(bar); ", path: "/a.ts" }, "Could not find text", "unknown");
+    expect(result.action).toBe("loop-detected");
+  });
+
+  it("keeps clearly different args as separate loops", () => {
+    const tracker = new ToolGuardTracker();
+    tracker.recordFailure("read", { path: "/etc/hosts" }, "ENOENT", "unknown");
+    const result = tracker.recordFailure("read", { path: "/var/log/syslog" }, "ENOENT", "unknown");
+    expect(result.action).toBe("continue");
+  });
+
+  it("requires exact matches when similarityThreshold is 1", () => {
+    const tracker = new ToolGuardTracker({ similarityThreshold: 1 });
+    tracker.recordFailure("exec", { command: "npm run build" }, "exit 1", "unknown");
+    const result = tracker.recordFailure("exec", { command: "npm run build:" }, "exit 1", "unknown");
+    expect(result.action).toBe("continue");
+  });
+
+  it("adds a note once the same successful call repeats with an unchanged result", () => {
+    const tracker = new ToolGuardTracker();
+    expect(tracker.recordSuccess("read", { path: "/a" }, "h1")).toBeNull();
+    expect(tracker.recordSuccess("read", { file_path: "/a" }, "h1")).toBeNull();
+    const note = tracker.recordSuccess("read", { path: "/a" }, "h1");
+    expect(note).toContain("[TOOL NOTE]");
+    expect(note).toContain("read this file 3 times");
+    expect(note).toContain("contents have not changed");
+  });
+
+  it("restarts the success count when the result changes", () => {
+    const tracker = new ToolGuardTracker();
+    tracker.recordSuccess("exec", { command: "ls -la" }, "h1");
+    tracker.recordSuccess("exec", { command: "ls -la" }, "h1");
+    expect(tracker.recordSuccess("exec", { command: "ls -la" }, "h2")).toBeNull();
+    tracker.recordSuccess("exec", { command: "ls -la" }, "h2");
+    expect(tracker.recordSuccess("exec", { command: "ls -la" }, "h2")).toContain("called exec with these arguments 3 times");
+  });
+
+  it("disables success notes when maxRepeatedSuccesses is 0", () => {
+    const tracker = new ToolGuardTracker({ maxRepeatedSuccesses: 0 });
+    for (let i = 0; i < 5; i++) {
+      expect(tracker.recordSuccess("read", { path: "/a" }, "h1")).toBeNull();
+    }
+  });
+
+  it("resets success counts between turns", () => {
+    const tracker = new ToolGuardTracker({ maxRepeatedSuccesses: 2 });
+    tracker.recordSuccess("read", { path: "/a" }, "h1");
+    tracker.resetTurn();
+    expect(tracker.recordSuccess("read", { path: "/a" }, "h1")).toBeNull();
+  });
+
+  it("reports the escalation stage with each failure", () => {
+    const tracker = new ToolGuardTracker();
+    expect(tracker.recordFailure("read", {}, "error", "unknown")).toMatchObject({ stage: 1, escalation: "corrective" });
+    expect(tracker.recordFailure("read", {}, "error", "unknown")).toMatchObject({ stage: 2, escalation: "loop-detected" });
+  });
+
+  it("follows a custom ladder with templates", () => {
+    const tracker = new ToolGuardTracker();
+    const ladder = [
+      { action: "corrective" as const },
+      { action: "corrective-example" as const, identical: 2 },
+      { action: "loop-detected" as const, identical: 3, template: "[LOOP DETECTED] {tool} x{count}: {error}" },
+    ];
+    expect(tracker.recordFailure("read", {}, "boom", "m", 1, ladder).action).toBe("continue");
+    const second = tracker.recordFailure("read", {}, "boom", "m", 1, ladder);
+    expect(second.action).toBe("corrective-example");
+    expect(second.message).toBeUndefined();
+    expect(tracker.recordFailure("read", {}, "boom", "m", 1, ladder).message).toBe("[LOOP DETECTED] read x3: boom");
+  });
+
+  it("blocks every tool with a turn-aborted message after an abort-turn stage", () => {
+    const tracker = new ToolGuardTracker();
+    const ladder = [{ action: "corrective" as const }, { action: "abort-turn" as const, turnFailures: 2 }];
+    tracker.recordFailure("read", {}, "a", "m", 1, ladder);
+    const result = tracker.recordFailure("exec", {}, "b", "m", 1, ladder);
+    expect(result.action).toBe("abort-turn");
+    expect(result.message).toContain("[TURN ABORTED] 2 tool failures");
+    expect(tracker.checkBlocked("write")).toContain("[TURN ABORTED]");
+    tracker.resetTurn();
+    expect(tracker.checkBlocked("write")).toBeNull();
+  });
+
+  it("snapshots the turn's failures, repeats and block", () => {
+    const tracker = new ToolGuardTracker({ maxFailuresPerTurn: 4 });
+    expect(tracker.snapshot()).toEqual({ failures: 0, weightedFailures: 0, failedTools: [], blockMode: null, repeats: [] });
+
+    tracker.recordFailure("exec", { command: "ls" }, "boom", "unknown");
+    tracker.recordFailure("read", {}, "Missing required parameter: path", "unknown");
+    tracker.recordFailure("read", {}, "Missing required parameter: path", "unknown");
+    tracker.recordFailure("read", {}, "Missing required parameter: path", "unknown");
+
+    const snapshot = tracker.snapshot();
+    expect(snapshot).toMatchObject({ failures: 4, failedTools: ["exec", "read"], blockMode: "failed" });
+    expect(snapshot.repeats).toEqual([{ toolName: "read", count: 3, error: "missing required parameter: path" }]);
+  });
+
+  it("does not treat failures on similarly named files as a loop", () => {
+    const tracker = new ToolGuardTracker();
+    const first = tracker.recordFailure("read", { path: "src/components/UserProfileCard.tsx" }, "ENOENT: no such file or directory, open 'src/components/UserProfileCard.tsx'", "unknown");
+    const second = tracker.recordFailure("read", { path: "src/components/UserProfileCart.tsx" }, "ENOENT: no such file or directory, open 'src/components/UserProfileCart.tsx'", "unknown");
+    expect(first.action).toBe("continue");
+    expect(second.action).toBe("continue");
+    expect(tracker.snapshot().repeats).toEqual([]);
+  });
 });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { validateToolArgs, isGuardMessage } from "../src/validator.js";
+
+describe("validateToolArgs", () => {
+  it("passes valid params through unchanged", () => {
+    const params = { path: "/foo" };
+    const result = validateToolArgs("read", params);
+    expect(result.params).toBe(params);
+    expect(result.repaired).toEqual([]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it("rewrites file_path to path", () => {
+    const result = validateToolArgs("read", { file_path: "/foo" });
+    expect(result.params).toEqual({ path: "/foo" });
+    expect(result.repaired).toEqual([["file_path", "path"]]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it("rewrites oldText and newText for edit", () => {
+    const result = validateToolArgs("edit", { path: "a.ts", oldText: "x", newText: "y" });
+    expect(result.params).toEqual({ path: "a.ts", old_string: "x", new_string: "y" });
+    expect(result.missing).toEqual([]);
+  });
+
+  it("reports required params that are still missing", () => {
+    const result = validateToolArgs("write", { file_path: "a.ts" });
+    expect(result.params).toEqual({ path: "a.ts" });
+    expect(result.missing).toEqual(["content"]);
+  });
+
+  it("ignores tools without a known schema", () => {
+    const result = validateToolArgs("browser", {});
+    expect(result.missing).toEqual([]);
+  });
+});
+
+describe("isGuardMessage", () => {
+  it("recognizes guard-generated messages", () => {
+    expect(isGuardMessage("[TOOL ERROR] read() requires 'path'.")).toBe(true);
+    expect(isGuardMessage("Error: [LOOP DETECTED] Tool \"read\" failed")).toBe(true);
+    expect(isGuardMessage("[TURN ABORTED] Too many failed tool calls this turn.")).toBe(true);
+    expect(isGuardMessage("Missing required parameter: path")).toBe(false);
+  });
+});